@@ -3,14 +3,23 @@ import { driver } from 'driver.js';
 import 'driver.js/dist/driver.css';
 import * as XLSX from 'xlsx';
 import * as pdfjsLib from 'pdfjs-dist';
+import { renderAsync as renderDocxAsync } from 'docx-preview';
+import { renderPptxSlides, PptxSlideRender } from './services/pptxRenderer';
 
 // Configure PDF.js worker
-pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js';
+// Worker version must match the bundled pdfjs-dist API version
+pdfjsLib.GlobalWorkerOptions.workerSrc = `https://cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjsLib.version}/pdf.worker.min.mjs`;
 import { 
   IconUpload, 
   IconMarkdown, 
   IconExcel, 
   IconPptx,
+  IconDocx,
+  IconCsv,
+  IconSubtitle,
+  IconI18n,
+  IconHtml,
+  IconOdf,
   IconLoading, 
   IconSuccess, 
   IconError,
@@ -43,8 +52,8 @@ import { AuthModal } from './components/AuthModal';
 import { GoogleCallback } from './components/GoogleCallback';
 import { LoginPage } from './components/LoginPage';
 import { ConfirmModal } from './components/ConfirmModal';
-import { AppStatus, FileType, SupportedLanguage, LogEntry, FileQueueItem, GlossaryItem, HistoryItem, BlacklistItem } from './types';
-import { processMarkdown, processExcel, processExcelWithShapes, processImage, processPptx, getExcelSheetNames, getExcelPreview, parseGlossaryByColumns, parseBlacklistFromExcel, ExcelPreviewData, hasShapes } from './services/fileProcessing';
+import { AppStatus, FileType, SupportedLanguage, LogEntry, FileQueueItem, GlossaryItem, HistoryItem, BlacklistItem, PptxImageCandidate, FormulaLiteralChange } from './types';
+import { processMarkdown, processExcel, processExcelWithShapes, processImage, processImageToImage, processPptx, applyPptxImageReplacements, getPptxSlides, getPptxImages, detectPptxImageText, processDocx, processPdf, processCsv, getCsvColumns, processLegacyXls, isLegacyXls, processSubtitles, processI18nResource, processHtml, processOdf, getExcelSheetNames, getExcelPreview, parseGlossaryByColumns, parseBlacklistFromExcel, ExcelPreviewData, hasShapes } from './services/fileProcessing';
 import { saveFileToDB, getFileFromDB, clearGlossaryDB, clearBlacklistDB } from './services/storage';
 import apiClient, { authAPI, userDataAPI } from './services/apiClient';
 
@@ -312,10 +321,11 @@ const App: React.FC = () => {
       for (const item of unprocessedExcels) {
         try {
           const names = await getExcelSheetNames(item.file);
+          const excelHasShapes = await hasShapes(await item.file.arrayBuffer());
           setQueue(prev => prev.map(q => {
             if (q.id === item.id) {
               // Auto-expand sheet selector for Excel files
-              return { ...q, availableSheets: names, selectedSheets: [], isExpanded: true };
+              return { ...q, availableSheets: names, selectedSheets: [], isExpanded: true, excelHasShapes };
             }
             return q;
           }));
@@ -329,6 +339,59 @@ const App: React.FC = () => {
     loadSheets();
   }, [queue]);
 
+  // Effect to load CSV/TSV header columns
+  useEffect(() => {
+    const loadColumns = async () => {
+      const unprocessedCsvs = queue.filter(
+        item => item.type === FileType.CSV && !item.availableColumns && item.status === AppStatus.IDLE
+      );
+      if (unprocessedCsvs.length === 0) return;
+
+      for (const item of unprocessedCsvs) {
+        try {
+          const columns = await getCsvColumns(item.file);
+          setQueue(prev => prev.map(q => q.id === item.id
+            ? { ...q, availableColumns: columns, selectedColumns: columns.map((_, idx) => idx), isExpanded: true }
+            : q
+          ));
+          addLog(`Loaded ${columns.length} columns for ${item.file.name}`, 'info');
+        } catch (e) {
+          console.error(e);
+          setQueue(prev => prev.map(q => q.id === item.id ? { ...q, availableColumns: [], selectedColumns: [] } : q));
+          addLog(`Failed to read columns for ${item.file.name}`, 'error');
+        }
+      }
+    };
+    loadColumns();
+  }, [queue]);
+
+  // Effect to load PowerPoint slide and image lists (titles + thumbnails)
+  useEffect(() => {
+    const loadSlides = async () => {
+      const unprocessedDecks = queue.filter(
+        item => item.type === FileType.PPTX && !item.availableSlides && item.status === AppStatus.IDLE
+      );
+      if (unprocessedDecks.length === 0) return;
+
+      for (const item of unprocessedDecks) {
+        try {
+          const [slides, images] = await Promise.all([getPptxSlides(item.file), getPptxImages(item.file)]);
+          // Images are opt-in: logos and photos should not be regenerated
+          setQueue(prev => prev.map(q => q.id === item.id
+            ? { ...q, availableSlides: slides, selectedSlides: slides.map(s => s.number), availableImages: images, selectedImages: [], isExpanded: true }
+            : q
+          ));
+          addLog(`Loaded ${slides.length} slides and ${images.length} images for ${item.file.name}`, 'info');
+        } catch (e) {
+          console.error(e);
+          setQueue(prev => prev.map(q => q.id === item.id ? { ...q, availableSlides: [], selectedSlides: [], availableImages: [], selectedImages: [] } : q));
+          addLog(`Failed to read slides for ${item.file.name}`, 'error');
+        }
+      }
+    };
+    loadSlides();
+  }, [queue]);
+
   // Add log helper - must be before conditional returns
   const addLog = useCallback((message: string, type: 'info' | 'success' | 'error' = 'info') => {
     setLogs(prev => [...prev, { id: Math.random().toString(36), message, timestamp: new Date(), type }]);
@@ -463,12 +526,33 @@ const App: React.FC = () => {
   const getFileType = (fileName: string): FileType => {
     const lower = fileName.toLowerCase();
     if (lower.endsWith('.md') || lower.endsWith('.txt')) return FileType.MARKDOWN;
-    if (lower.endsWith('.xlsx') || lower.endsWith('.xls') || lower.endsWith('.csv')) return FileType.EXCEL;
+    if (lower.endsWith('.csv') || lower.endsWith('.tsv')) return FileType.CSV;
+    if (/\.(srt|vtt|ass|ssa)$/.test(lower)) return FileType.SUBTITLE;
+    if (/\.(xlf|xliff|po|pot|json|arb)$/.test(lower)) return FileType.I18N;
+    if (lower.endsWith('.html') || lower.endsWith('.htm')) return FileType.HTML;
+    if (lower.endsWith('.xlsx') || lower.endsWith('.xls')) return FileType.EXCEL;
     if (lower.endsWith('.pptx')) return FileType.PPTX;
+    if (lower.endsWith('.docx')) return FileType.DOCX;
+    if (/\.(odt|ods|odp)$/.test(lower)) return FileType.ODF;
+    if (lower.endsWith('.pdf')) return FileType.PDF;
     if (lower.endsWith('.png') || lower.endsWith('.jpg') || lower.endsWith('.jpeg') || lower.endsWith('.webp')) return FileType.IMAGE;
     return FileType.UNKNOWN;
   };
 
+  // Some file types are translated into a different output format
+  const getDownloadName = (fileName: string, type: FileType, lang: SupportedLanguage = targetLang, resultBlob?: Blob): string => {
+    let suffix = type === FileType.IMAGE || type === FileType.PDF ? '.md' : '';
+    // Legacy .xls upgraded to .xlsx
+    if (/\.xls$/i.test(fileName) && resultBlob?.type === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet') suffix = 'x';
+    // Image-to-image output keeps the picture format (PNG, or JPEG for JPEG input)
+    if (type === FileType.IMAGE && resultBlob?.type.startsWith('image/')) {
+      return `translated_${lang}_${fileName.replace(/\.[^.]+$/, '')}.${resultBlob.type === 'image/jpeg' ? 'jpg' : 'png'}`;
+    }
+    // Gettext template (.pot) becomes a translation catalog (.po)
+    if (type === FileType.I18N && /\.pot$/i.test(fileName)) return `translated_${lang}_${fileName.slice(0, -1)}`;
+    return `translated_${lang}_${fileName}${suffix}`;
+  };
+
   const handleFilesAdded = async (fileList: FileList | null) => {
     if (!fileList) return;
     const newItems: FileQueueItem[] = [];
@@ -486,9 +570,9 @@ const App: React.FC = () => {
         continue;
       }
 
-      // Pre-read text for Markdown/Text preview
+      // Pre-read text for Markdown/Text/Subtitle/Resource/HTML preview
       let originalText = '';
-      if (type === FileType.MARKDOWN) {
+      if (type === FileType.MARKDOWN || type === FileType.SUBTITLE || type === FileType.I18N || type === FileType.HTML) {
         originalText = await file.text();
       }
 
@@ -593,6 +677,117 @@ const App: React.FC = () => {
     setQueue(prev => prev.map(item => item.id === itemId ? { ...item, selectedSheets: [] } : item));
   };
 
+  const toggleColumn = (itemId: string, columnIndex: number) => {
+    setQueue(prev => prev.map(item => {
+      if (item.id !== itemId) return item;
+      const selected = item.selectedColumns || [];
+      const newColumns = selected.includes(columnIndex)
+        ? selected.filter(c => c !== columnIndex)
+        : [...selected, columnIndex].sort((a, b) => a - b);
+      return { ...item, selectedColumns: newColumns };
+    }));
+  };
+
+  const selectAllColumns = (itemId: string) => {
+    setQueue(prev => prev.map(item => item.id === itemId ? { ...item, selectedColumns: (item.availableColumns || []).map((_, idx) => idx) } : item));
+  };
+
+  const deselectAllColumns = (itemId: string) => {
+    setQueue(prev => prev.map(item => item.id === itemId ? { ...item, selectedColumns: [] } : item));
+  };
+
+  const toggleSlide = (itemId: string, slideNumber: number) => {
+    setQueue(prev => prev.map(item => {
+      if (item.id !== itemId) return item;
+      const selected = item.selectedSlides || [];
+      const newSlides = selected.includes(slideNumber)
+        ? selected.filter(n => n !== slideNumber)
+        : [...selected, slideNumber].sort((a, b) => a - b);
+      return { ...item, selectedSlides: newSlides };
+    }));
+  };
+
+  const selectAllSlides = (itemId: string) => {
+    setQueue(prev => prev.map(item => item.id === itemId ? { ...item, selectedSlides: (item.availableSlides || []).map(s => s.number) } : item));
+  };
+
+  const deselectAllSlides = (itemId: string) => {
+    setQueue(prev => prev.map(item => item.id === itemId ? { ...item, selectedSlides: [] } : item));
+  };
+
+  const toggleImage = (itemId: string, path: string) => {
+    setQueue(prev => prev.map(item => {
+      if (item.id !== itemId) return item;
+      const selected = item.selectedImages || [];
+      return { ...item, selectedImages: selected.includes(path) ? selected.filter(p => p !== path) : [...selected, path] };
+    }));
+  };
+
+  const selectAllImages = (itemId: string) => {
+    setQueue(prev => prev.map(item => item.id === itemId ? { ...item, selectedImages: (item.availableImages || []).map(img => img.path) } : item));
+  };
+
+  const deselectAllImages = (itemId: string) => {
+    setQueue(prev => prev.map(item => item.id === itemId ? { ...item, selectedImages: [] } : item));
+  };
+
+  // OCR every listed image and pre-select the ones containing text
+  const detectImageText = async (itemId: string) => {
+    const item = queue.find(q => q.id === itemId);
+    if (!item || !item.availableImages?.length) return;
+    if (!localStorage.getItem('user_api_key')) {
+      setShowApiKeyModal(true);
+      return;
+    }
+
+    addLog(`Checking ${item.availableImages.length} images in ${item.file.name} for text...`, 'info');
+    setQueue(prev => prev.map(q => q.id === itemId ? { ...q, progressMessage: 'Checking images for text...' } : q));
+    try {
+      const { hasText, failed } = await detectPptxImageText(item.file, item.availableImages.map(img => img.path), (done, total) => {
+        setQueue(prev => prev.map(q => q.id === itemId ? { ...q, progressMessage: `Checking images for text ${done}/${total}...` } : q));
+      });
+      // Images that could not be checked keep their current state and selection
+      setQueue(prev => prev.map(q => q.id === itemId ? {
+        ...q,
+        progressMessage: undefined,
+        availableImages: (q.availableImages || []).map(img => ({ ...img, hasText: hasText[img.path] ?? img.hasText })),
+        selectedImages: (q.availableImages || []).filter(img =>
+          img.path in hasText ? hasText[img.path] : (q.selectedImages || []).includes(img.path)
+        ).map(img => img.path)
+      } : q));
+      addLog(`${Object.values(hasText).filter(Boolean).length} images with text found in ${item.file.name}`, 'success');
+      if (failed.length > 0) {
+        addLog(`Could not check ${failed.length} images in ${item.file.name} (OCR request failed) - their selection was left unchanged`, 'error');
+      }
+    } catch (e) {
+      console.error(e);
+      setQueue(prev => prev.map(q => q.id === itemId ? { ...q, progressMessage: undefined } : q));
+      addLog(`Failed to check images in ${item.file.name}`, 'error');
+    }
+  };
+
+  const setImageDecision = (itemId: string, path: string, accepted: boolean) => {
+    setQueue(prev => prev.map(item => item.id === itemId ? {
+      ...item,
+      imageCandidates: (item.imageCandidates || []).map(c => c.path === path ? { ...c, accepted } : c)
+    } : item));
+  };
+
+  // Write the accepted image replacements into the translated deck
+  const finalizeImageReview = async (itemId: string) => {
+    const item = queue.find(q => q.id === itemId);
+    if (!item || !item.resultBlob || !item.imageCandidates) return;
+
+    const accepted = item.imageCandidates.filter(c => c.accepted);
+    const blob = accepted.length > 0 ? await applyPptxImageReplacements(item.resultBlob, accepted) : item.resultBlob;
+    const url = URL.createObjectURL(blob);
+    if (item.downloadUrl && blob !== item.resultBlob) URL.revokeObjectURL(item.downloadUrl);
+
+    setQueue(prev => prev.map(q => q.id === itemId ? { ...q, resultBlob: blob, downloadUrl: url, imageCandidates: undefined } : q));
+    setHistory(prev => prev.map(h => h.id === itemId ? { ...h, blob, downloadUrl: url } : h));
+    addLog(`Applied ${accepted.length}/${item.imageCandidates.length} translated images to ${item.file.name}`, 'success');
+  };
+
   const toggleExpand = (itemId: string) => {
     setQueue(prev => prev.map(item => item.id === itemId ? { ...item, isExpanded: !item.isExpanded } : item));
   };
@@ -626,6 +821,19 @@ const App: React.FC = () => {
          addLog(`Skipping ${item.file.name}: No sheets selected.`, 'error');
          continue;
       }
+      if (item.type === FileType.EXCEL && item.excelHasShapes && (item.excelBilingualMode || 'replace') !== 'replace') {
+         addLog(`Skipping ${item.file.name}: bilingual output would drop its shapes and charts.`, 'error');
+         continue;
+      }
+      if (item.type === FileType.CSV && (item.selectedColumns || []).length === 0) {
+         addLog(`Skipping ${item.file.name}: No columns selected.`, 'error');
+         continue;
+      }
+      if (item.type === FileType.PPTX && (item.availableSlides || []).length > 0 && (item.selectedSlides || []).length === 0
+          && (item.pptxBilingualMode === 'duplicate' || (!(item.pptxIncludeMasters ?? true) && !(item.pptxIncludeLayouts ?? true)))) {
+         addLog(`Skipping ${item.file.name}: No slides selected.`, 'error');
+         continue;
+      }
 
       setQueue(prev => prev.map(q => q.id === item.id ? { 
         ...q, status: AppStatus.TRANSLATING, progressMessage: 'Starting...', progress: 0
@@ -634,32 +842,187 @@ const App: React.FC = () => {
       try {
         let resultBlob: Blob;
         let translatedTextStr: string | undefined;
+        let originalTextStr: string | undefined;
+        let originalPages: string[] | undefined;
+        let translatedPages: string[] | undefined;
+        let warnings: string[] | undefined;
+        let imageCandidates: PptxImageCandidate[] | undefined;
+        let formulaChanges: FormulaLiteralChange[] | undefined;
         
         const updateProgress = (msg: string, percent: number = 0) => {
            setQueue(prev => prev.map(q => q.id === item.id ? { ...q, progressMessage: msg, progress: percent } : q));
         };
 
         if (item.type === FileType.MARKDOWN) {
-          const res = await processMarkdown(item.originalText || '', targetLang, context, glossary, updateProgress);
+          const res = await processMarkdown(
+            item.originalText || '',
+            targetLang,
+            context,
+            glossary,
+            updateProgress,
+            sourceLang,
+            blacklistEnabled ? blacklist : []
+          );
           resultBlob = res.blob;
           translatedTextStr = res.translatedText;
         } else if (item.type === FileType.IMAGE) {
-          const res = await processImage(item.file, targetLang, context, glossary, updateProgress);
+          const res = item.imageOutputMode === 'image'
+            ? await processImageToImage(item.file, targetLang, context, glossary, updateProgress, item.includeOcrText ?? false)
+            : await processImage(item.file, targetLang, context, glossary, updateProgress);
           resultBlob = res.blob;
           translatedTextStr = res.translatedText;
         } else if (item.type === FileType.PPTX) {
-          resultBlob = await processPptx(item.file, targetLang, context, glossary, updateProgress);
+          const res = await processPptx(
+            item.file,
+            targetLang,
+            context,
+            glossary,
+            updateProgress,
+            {
+              translateImages: (item.selectedImages || []).length > 0,
+              overflowStrategy: item.pptxOverflowStrategy || 'autofit',
+              minFontSize: item.pptxMinFontSize ?? 10,
+              // Slide list not loaded (or unreadable): translate the whole deck
+              selection: (item.availableSlides || []).length > 0 ? {
+                slides: item.selectedSlides || [],
+                notes: item.pptxIncludeNotes ?? true,
+                masters: item.pptxIncludeMasters ?? true,
+                layouts: item.pptxIncludeLayouts ?? true
+              } : undefined,
+              skipAlreadyTranslated,
+              sourceLang,
+              blacklist: blacklistEnabled ? blacklist : [],
+              extraText: {
+                altText: item.pptxTranslateAltText ?? false,
+                comments: item.pptxTranslateComments ?? false,
+                tooltips: item.pptxTranslateTooltips ?? false
+              },
+              imageOptions: { paths: item.selectedImages || [], review: true },
+              bilingualMode: item.pptxBilingualMode || 'replace'
+            }
+          );
+          resultBlob = res.blob;
+          warnings = res.warnings;
+          imageCandidates = res.imageCandidates.length > 0 ? res.imageCandidates : undefined;
+        } else if (item.type === FileType.PDF) {
+          const res = await processPdf(
+            item.file,
+            targetLang,
+            context,
+            glossary,
+            updateProgress,
+            sourceLang,
+            blacklistEnabled ? blacklist : []
+          );
+          resultBlob = res.blob;
+          translatedTextStr = res.translatedText;
+          originalPages = res.originalPages;
+          translatedPages = res.translatedPages;
+          warnings = res.warnings.length > 0 ? res.warnings : undefined;
+        } else if (item.type === FileType.CSV) {
+          const res = await processCsv(
+            item.file,
+            targetLang,
+            item.selectedColumns || [],
+            context,
+            glossary,
+            updateProgress,
+            skipAlreadyTranslated,
+            sourceLang,
+            blacklistEnabled ? blacklist : []
+          );
+          resultBlob = res.blob;
+          originalTextStr = res.originalText;
+          translatedTextStr = res.translatedText;
+          warnings = res.warnings.length > 0 ? res.warnings : undefined;
+        } else if (item.type === FileType.SUBTITLE) {
+          const res = await processSubtitles(
+            item.file,
+            targetLang,
+            context,
+            glossary,
+            updateProgress,
+            item.subtitleMaxChars ?? 42,
+            skipAlreadyTranslated,
+            sourceLang,
+            blacklistEnabled ? blacklist : []
+          );
+          resultBlob = res.blob;
+          translatedTextStr = res.translatedText;
+        } else if (item.type === FileType.HTML) {
+          const res = await processHtml(
+            item.file,
+            targetLang,
+            context,
+            glossary,
+            updateProgress,
+            skipAlreadyTranslated,
+            sourceLang,
+            blacklistEnabled ? blacklist : []
+          );
+          resultBlob = res.blob;
+          translatedTextStr = res.translatedText;
+        } else if (item.type === FileType.I18N) {
+          const res = await processI18nResource(
+            item.file,
+            targetLang,
+            context,
+            glossary,
+            updateProgress,
+            skipAlreadyTranslated,
+            sourceLang,
+            blacklistEnabled ? blacklist : []
+          );
+          resultBlob = res.blob;
+          translatedTextStr = res.translatedText;
+        } else if (item.type === FileType.DOCX) {
+          resultBlob = await processDocx(
+            item.file,
+            targetLang,
+            context,
+            glossary,
+            updateProgress,
+            skipAlreadyTranslated,
+            sourceLang,
+            blacklistEnabled ? blacklist : []
+          );
+        } else if (item.type === FileType.ODF) {
+          resultBlob = await processOdf(
+            item.file,
+            targetLang,
+            context,
+            glossary,
+            updateProgress,
+            skipAlreadyTranslated,
+            sourceLang,
+            blacklistEnabled ? blacklist : []
+          );
         } else {
-          // Smart detection: Check if file has shapes/flowcharts
           const arrayBuffer = await item.file.arrayBuffer();
-          const fileHasShapes = await hasShapes(arrayBuffer);
-          
           const activeBlacklist = blacklistEnabled ? blacklist : [];
           
-          if (fileHasShapes) {
+          if (isLegacyXls(arrayBuffer)) {
+            // Legacy BIFF workbook: ExcelJS/xlsx-populate only read OOXML, use SheetJS
+            updateProgress('Detected legacy .xls format - using SheetJS processor...', 5);
+            const res = await processLegacyXls(
+              arrayBuffer,
+              targetLang,
+              item.selectedSheets,
+              context,
+              glossary,
+              updateProgress,
+              skipAlreadyTranslated,
+              sourceLang,
+              activeBlacklist,
+              item.legacyOutputFormat || 'xlsx'
+            );
+            resultBlob = res.blob;
+            warnings = res.warnings;
+          } else if ((item.excelBilingualMode || 'replace') === 'replace' && await hasShapes(arrayBuffer)) {
+            // Smart detection: file has shapes/flowcharts
             // Use xlsx-populate + JSZip processor (slower but handles shapes)
             updateProgress('Detected shapes/flowcharts - using advanced processor...', 5);
-            resultBlob = await processExcelWithShapes(
+            const res = await processExcelWithShapes(
               arrayBuffer, 
               targetLang, 
               item.selectedSheets, 
@@ -668,12 +1031,21 @@ const App: React.FC = () => {
               updateProgress, 
               skipAlreadyTranslated, 
               sourceLang, 
-              activeBlacklist
+              activeBlacklist,
+              !!item.translateFormulaStrings
             );
+            resultBlob = res.blob;
+            formulaChanges = res.formulaChanges;
+            warnings = res.warnings.length > 0 ? res.warnings : undefined;
           } else {
-            // Use fast ExcelJS processor (no shapes)
-            updateProgress('No shapes detected - using fast processor...', 5);
-            resultBlob = await processExcel(
+            // Use fast ExcelJS processor (no shapes, or bilingual output which only it supports)
+            const bilingualMode = item.excelBilingualMode || 'replace';
+            if (bilingualMode !== 'replace' && await hasShapes(arrayBuffer)) {
+              // Only reached if shape detection did not run when the file was added
+              throw new Error('Bilingual output is not available for workbooks with shapes or charts: the standard processor would drop them.');
+            }
+            updateProgress(bilingualMode === 'replace' ? 'No shapes detected - using fast processor...' : 'Building bilingual workbook...', 5);
+            const res = await processExcel(
               arrayBuffer, 
               targetLang, 
               item.selectedSheets, 
@@ -682,8 +1054,13 @@ const App: React.FC = () => {
               updateProgress, 
               skipAlreadyTranslated, 
               sourceLang, 
-              activeBlacklist
+              activeBlacklist,
+              !!item.translateFormulaStrings,
+              bilingualMode
             );
+            resultBlob = res.blob;
+            formulaChanges = res.formulaChanges;
+            warnings = res.warnings.length > 0 ? res.warnings : undefined;
           }
         }
 
@@ -697,9 +1074,21 @@ const App: React.FC = () => {
           progress: 100,
           resultBlob: resultBlob,
           downloadUrl: url,
-          translatedText: translatedTextStr
+          originalText: originalTextStr ?? q.originalText,
+          translatedText: translatedTextStr,
+          originalPages,
+          translatedPages,
+          warnings,
+          imageCandidates,
+          formulaChanges
         } : q));
 
+        if (imageCandidates) addLog(`${item.file.name}: review ${imageCandidates.length} translated images before downloading`, 'info');
+
+        warnings?.forEach(warning => addLog(`⚠️ ${item.file.name}: ${warning}`, 'info'));
+
+        if (formulaChanges && formulaChanges.length > 0) addLog(`${item.file.name}: translated ${formulaChanges.length} strings inside formulas`, 'info');
+
         // Add to History (Async)
         await updateHistory({
           id: item.id,
@@ -1086,6 +1475,12 @@ const App: React.FC = () => {
                           {h.fileType === FileType.EXCEL ? <IconExcel className="w-4 h-4 text-green-400" /> : 
                            h.fileType === FileType.IMAGE ? <IconImage className="w-4 h-4 text-orange-400" /> :
                            h.fileType === FileType.PPTX ? <IconPptx className="w-4 h-4 text-orange-500" /> :
+                           h.fileType === FileType.DOCX ? <IconDocx className="w-4 h-4 text-sky-400" /> :
+                           h.fileType === FileType.ODF ? <IconOdf className="w-4 h-4 text-lime-400" /> :
+                           h.fileType === FileType.CSV ? <IconCsv className="w-4 h-4 text-emerald-400" /> :
+                           h.fileType === FileType.SUBTITLE ? <IconSubtitle className="w-4 h-4 text-pink-400" /> :
+                           h.fileType === FileType.I18N ? <IconI18n className="w-4 h-4 text-teal-400" /> :
+                           h.fileType === FileType.HTML ? <IconHtml className="w-4 h-4 text-amber-400" /> :
                            <IconMarkdown className="w-4 h-4 text-blue-400" />}
                        </div>
                        <div>
@@ -1096,7 +1491,7 @@ const App: React.FC = () => {
                        </div>
                     </div>
                     {h.downloadUrl ? (
-                      <a href={h.downloadUrl} download={`translated_${h.targetLang}_${h.fileName}${h.fileType === FileType.IMAGE ? '.md' : ''}`} className="p-2 hover:bg-slate-600 rounded text-green-400"><IconDownload className="w-4 h-4" /></a>
+                      <a href={h.downloadUrl} download={getDownloadName(h.fileName, h.fileType, h.targetLang, h.blob)} className="p-2 hover:bg-slate-600 rounded text-green-400"><IconDownload className="w-4 h-4" /></a>
                     ) : (
                       <span className="text-xs text-red-400 italic px-2">Expired</span>
                     )}
@@ -1701,8 +2096,11 @@ const App: React.FC = () => {
     const [excelData, setExcelData] = useState<XLSX.WorkBook | null>(null);
     const [pdfData, setPdfData] = useState<any>(null);
     const [pdfPageNum, setPdfPageNum] = useState(1);
+    const [pptxSlides, setPptxSlides] = useState<{ original: PptxSlideRender[], translated: PptxSlideRender[] } | null>(null);
+    const [slideNum, setSlideNum] = useState(1);
     const [loading, setLoading] = useState(false);
     const pdfCanvasRef = useRef<HTMLCanvasElement>(null);
+    const docxContainerRef = useRef<HTMLDivElement>(null);
 
     // Load preview data when modal opens
     useEffect(() => {
@@ -1718,15 +2116,22 @@ const App: React.FC = () => {
             setExcelData(workbook);
             setSelectedSheet(0);
           } else if (previewItem.type === FileType.PDF) {
-            // Load PDF using PDF.js
-            const arrayBuffer = await previewItem.resultBlob.arrayBuffer();
+            // Load the original PDF using PDF.js (translation is shown page-aligned next to it)
+            const arrayBuffer = await previewItem.file.arrayBuffer();
             const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer });
             const pdf = await loadingTask.promise;
             setPdfData(pdf);
             setPdfPageNum(1);
+          } else if (previewItem.type === FileType.DOCX) {
+            // Rendered by docx-preview once the container is mounted (see effect below)
           } else if (previewItem.type === FileType.PPTX) {
-            // For PPTX, we don't render preview (show message instead)
-            // Just set loading to false
+            // Render original and translated decks with the built-in slide renderer
+            const [original, translated] = await Promise.all([
+              renderPptxSlides(previewItem.file),
+              renderPptxSlides(previewItem.resultBlob)
+            ]);
+            setPptxSlides({ original, translated });
+            setSlideNum(1);
           }
         } catch (error) {
           console.error('Preview loading error:', error);
@@ -1742,9 +2147,28 @@ const App: React.FC = () => {
         setSelectedSheet(0);
         setPdfData(null);
         setPdfPageNum(1);
+        setPptxSlides(null);
+        setSlideNum(1);
       };
     }, [previewItem]);
 
+    // Render Word documents with docx-preview
+    useEffect(() => {
+      if (!previewItem || previewItem.type !== FileType.DOCX || !previewItem.resultBlob || loading) return;
+      const container = docxContainerRef.current;
+      if (!container) return;
+
+      container.innerHTML = '';
+      renderDocxAsync(previewItem.resultBlob, container, undefined, {
+        className: 'docx-preview',
+        inWrapper: true,
+        ignoreLastRenderedPageBreak: true
+      }).catch(error => {
+        console.error('DOCX preview render error:', error);
+        container.innerHTML = '<div class="text-slate-400 text-center p-4">Failed to render Word preview.</div>';
+      });
+    }, [previewItem, loading]);
+
     if (!previewItem) return null;
 
     // Highlight glossary terms
@@ -1777,6 +2201,7 @@ const App: React.FC = () => {
           canvas.width = viewport.width;
 
           const renderContext = {
+            canvas,
             canvasContext: context,
             viewport: viewport
           };
@@ -1815,13 +2240,83 @@ const App: React.FC = () => {
             </button>
           </div>
 
-          {/* PDF Canvas */}
-          <div className="flex-1 overflow-auto p-4 bg-slate-900 flex items-start justify-center">
-            <canvas 
-              ref={pdfCanvasRef} 
-              className="border border-slate-700 shadow-2xl rounded"
-              style={{ maxWidth: '100%', height: 'auto' }}
-            />
+          {/* Original page (canvas) next to its translation */}
+          <div className="flex-1 flex overflow-hidden">
+            <div className="flex-1 border-r border-slate-700 flex flex-col min-w-0">
+              <div className="p-2 bg-slate-800/50 text-xs font-semibold text-slate-400 text-center uppercase tracking-wide">Original</div>
+              <div className="flex-1 overflow-auto p-4 bg-slate-900 flex items-start justify-center custom-scrollbar">
+                <canvas 
+                  ref={pdfCanvasRef} 
+                  className="border border-slate-700 shadow-2xl rounded"
+                  style={{ maxWidth: '100%', height: 'auto' }}
+                />
+              </div>
+            </div>
+            <div className="flex-1 flex flex-col min-w-0 bg-slate-900/50">
+              <div className="p-2 bg-slate-800/50 text-xs font-semibold text-green-400 text-center uppercase tracking-wide">Translated ({targetLang})</div>
+              <div className="flex-1 overflow-auto p-4 custom-scrollbar">
+                {previewItem.translatedPages?.[pdfPageNum - 1] ? renderHighlightedText(previewItem.translatedPages[pdfPageNum - 1]) : (
+                  <div className="flex items-center justify-center h-full text-slate-500 italic">No text on this page.</div>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      );
+    };
+
+    // Render PowerPoint slides (original next to translated)
+    const renderPptxPreview = () => {
+      if (!pptxSlides) return <div className="flex items-center justify-center h-full text-slate-400">Loading slides...</div>;
+      if (pptxSlides.translated.length === 0) return <div className="flex items-center justify-center h-full text-slate-500 italic">No slides found in this presentation.</div>;
+
+      const total = pptxSlides.translated.length;
+      const renderSlide = (slide: PptxSlideRender | undefined) => slide ? (
+        <div
+          className="w-full max-w-4xl shadow-2xl rounded overflow-hidden border border-slate-700"
+          style={{ aspectRatio: String(slide.aspectRatio) }}
+          dangerouslySetInnerHTML={{ __html: slide.html }}
+        />
+      ) : (
+        <div className="text-slate-500 italic">Slide not available.</div>
+      );
+
+      return (
+        <div className="flex flex-col h-full">
+          {/* Slide Controls */}
+          <div className="flex justify-between items-center p-3 bg-slate-800 border-b border-slate-700">
+            <button
+              onClick={() => setSlideNum(Math.max(1, slideNum - 1))}
+              disabled={slideNum <= 1}
+              className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 disabled:bg-slate-800 disabled:text-slate-600 text-white rounded text-sm font-medium transition-colors"
+            >
+              ← Previous
+            </button>
+            <span className="text-sm text-slate-300">
+              Slide {slideNum} of {total}
+            </span>
+            <button
+              onClick={() => setSlideNum(Math.min(total, slideNum + 1))}
+              disabled={slideNum >= total}
+              className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 disabled:bg-slate-800 disabled:text-slate-600 text-white rounded text-sm font-medium transition-colors"
+            >
+              Next →
+            </button>
+          </div>
+
+          <div className="flex-1 flex overflow-hidden">
+            <div className="flex-1 border-r border-slate-700 flex flex-col min-w-0">
+              <div className="p-2 bg-slate-800/50 text-xs font-semibold text-slate-400 text-center uppercase tracking-wide">Original</div>
+              <div className="flex-1 overflow-auto p-4 bg-slate-900 flex items-start justify-center custom-scrollbar">
+                {renderSlide(pptxSlides.original[slideNum - 1])}
+              </div>
+            </div>
+            <div className="flex-1 flex flex-col min-w-0 bg-slate-900/50">
+              <div className="p-2 bg-slate-800/50 text-xs font-semibold text-green-400 text-center uppercase tracking-wide">Translated ({targetLang})</div>
+              <div className="flex-1 overflow-auto p-4 flex items-start justify-center custom-scrollbar">
+                {renderSlide(pptxSlides.translated[slideNum - 1])}
+              </div>
+            </div>
           </div>
         </div>
       );
@@ -1913,8 +2408,31 @@ const App: React.FC = () => {
         );
       }
 
+      // Image-to-image translation: original and translated pictures side by side
+      if (previewItem.type === FileType.IMAGE && previewItem.resultBlob?.type.startsWith('image/')) {
+        return (
+          <div className="flex-1 flex overflow-hidden">
+            <div className="flex-1 border-r border-slate-700 flex flex-col min-w-0">
+              <div className="p-2 bg-slate-800/50 text-xs font-semibold text-slate-400 text-center uppercase tracking-wide sticky top-0">Original</div>
+              <div className="flex-1 flex items-center justify-center p-4 bg-slate-900/30 overflow-auto custom-scrollbar">
+                <img src={URL.createObjectURL(previewItem.file)} alt="Original" className="max-w-full max-h-full object-contain rounded shadow-lg border border-slate-700" />
+              </div>
+            </div>
+            <div className="flex-1 flex flex-col min-w-0 bg-slate-900/50">
+              <div className="p-2 bg-slate-800/50 text-xs font-semibold text-green-400 text-center uppercase tracking-wide sticky top-0">Translated ({targetLang})</div>
+              <div className="flex-1 flex flex-col items-center justify-center gap-4 p-4 overflow-auto custom-scrollbar">
+                <img src={URL.createObjectURL(previewItem.resultBlob)} alt="Translated" className="max-w-full max-h-full object-contain rounded shadow-lg border border-slate-700" />
+                {previewItem.translatedText && (
+                  <div className="w-full border-t border-slate-700 pt-3">{renderHighlightedText(previewItem.translatedText)}</div>
+                )}
+              </div>
+            </div>
+          </div>
+        );
+      }
+
       // Text-based files (Markdown, Image translation result)
-      if (previewItem.type === FileType.MARKDOWN || previewItem.type === FileType.IMAGE) {
+      if (previewItem.type === FileType.MARKDOWN || previewItem.type === FileType.IMAGE || previewItem.type === FileType.CSV || previewItem.type === FileType.SUBTITLE || previewItem.type === FileType.I18N || previewItem.type === FileType.HTML) {
         return (
           <div className="flex-1 flex overflow-hidden">
             {/* Original */}
@@ -1954,14 +2472,28 @@ const App: React.FC = () => {
         return renderPdfPreview();
       }
 
+      // Word files
+      if (previewItem.type === FileType.DOCX && previewItem.resultBlob) {
+        return (
+          <div className="flex-1 overflow-auto bg-slate-900 custom-scrollbar">
+            <div ref={docxContainerRef} />
+          </div>
+        );
+      }
+
       // PPTX files
       if (previewItem.type === FileType.PPTX && previewItem.resultBlob) {
+        return renderPptxPreview();
+      }
+
+      // OpenDocument files
+      if (previewItem.type === FileType.ODF && previewItem.resultBlob) {
         return (
           <div className="flex items-center justify-center h-full text-slate-500 italic p-8">
             <div className="text-center">
-              <IconPptx className="w-16 h-16 text-orange-500 mx-auto mb-4" />
-              <p className="text-lg mb-2">PowerPoint Preview</p>
-              <p className="text-sm">Preview for PowerPoint files is currently not available.</p>
+              <IconOdf className="w-16 h-16 text-lime-400 mx-auto mb-4" />
+              <p className="text-lg mb-2">OpenDocument Preview</p>
+              <p className="text-sm">Preview for LibreOffice files is currently not available.</p>
               <p className="text-xs text-slate-600 mt-2">Please download the file to view the translated content.</p>
             </div>
           </div>
@@ -2004,19 +2536,32 @@ const App: React.FC = () => {
               <span>
                 {previewItem.type === FileType.EXCEL ? 'Use tabs to switch between sheets' : 
                  previewItem.type === FileType.PDF ? 'Use navigation buttons to browse pages' :
-                 previewItem.type === FileType.MARKDOWN || previewItem.type === FileType.IMAGE ? 'Highlighted terms from glossary' :
+                 previewItem.type === FileType.PPTX ? 'Use navigation buttons to browse slides. Charts and SmartArt are shown as frames' :
+                 previewItem.type === FileType.DOCX ? 'Scroll to browse the translated document' :
+                 previewItem.type === FileType.MARKDOWN || previewItem.type === FileType.IMAGE || previewItem.type === FileType.CSV || previewItem.type === FileType.SUBTITLE || previewItem.type === FileType.I18N || previewItem.type === FileType.HTML ? 'Highlighted terms from glossary' :
                  'Download to view full formatting'}
               </span>
             </div>
-            {previewItem.downloadUrl && (
-              <a 
-                href={previewItem.downloadUrl} 
-                download={`translated_${targetLang}_${previewItem.file.name}${previewItem.type === FileType.IMAGE ? '.md' : ''}`} 
-                className="flex items-center gap-2 bg-green-600 hover:bg-green-500 text-white px-4 py-2 rounded font-medium transition-colors shadow-lg"
-              >
-                <IconDownload className="w-4 h-4" /> Download
-              </a>
-            )}
+            <div className="flex items-center gap-2">
+              {previewItem.downloadUrl && (
+                <a 
+                  href={previewItem.downloadUrl} 
+                  download={getDownloadName(previewItem.file.name, previewItem.type, targetLang, previewItem.resultBlob)} 
+                  className="flex items-center gap-2 bg-green-600 hover:bg-green-500 text-white px-4 py-2 rounded font-medium transition-colors shadow-lg"
+                >
+                  <IconDownload className="w-4 h-4" /> Download
+                </a>
+              )}
+              {previewItem.type === FileType.IMAGE && previewItem.resultBlob?.type.startsWith('image/') && previewItem.translatedText && (
+                <a
+                  href={`data:text/markdown;charset=utf-8,${encodeURIComponent(previewItem.translatedText)}`}
+                  download={`translated_${targetLang}_${previewItem.file.name}.md`}
+                  className="flex items-center gap-2 bg-slate-700 hover:bg-slate-600 text-white px-4 py-2 rounded font-medium transition-colors"
+                >
+                  <IconDownload className="w-4 h-4" /> OCR Text
+                </a>
+              )}
+            </div>
           </div>
         </div>
       </div>
@@ -2235,12 +2780,12 @@ const App: React.FC = () => {
                 onDrop={handleDrop}
                 onClick={() => fileInputRef.current?.click()}
               >
-                <input type="file" ref={fileInputRef} onChange={handleFileChange} className="hidden" multiple accept=".md,.txt,.xlsx,.xls,.csv,.pptx,.png,.jpg,.jpeg,.webp" />
+                <input type="file" ref={fileInputRef} onChange={handleFileChange} className="hidden" multiple accept=".md,.txt,.xlsx,.xls,.csv,.tsv,.pptx,.docx,.odt,.ods,.odp,.pdf,.srt,.vtt,.ass,.ssa,.xlf,.xliff,.po,.pot,.json,.arb,.html,.htm,.png,.jpg,.jpeg,.webp" />
                 <div className="w-16 h-16 bg-slate-700 rounded-full flex items-center justify-center mx-auto mb-4 group-hover:scale-110 transition-transform group-hover:bg-blue-500/20">
                   <IconUpload className="w-8 h-8 text-blue-400 group-hover:text-blue-300" />
                 </div>
                 <h3 className="text-xl font-semibold text-white mb-2">Click or Drag & Drop Files</h3>
-                <p className="text-slate-400 text-sm">Supported: Markdown, Excel, PPTX, Images</p>
+                <p className="text-slate-400 text-sm">Supported: Markdown, Excel, CSV/TSV, PPTX, Word, OpenDocument, PDF, Subtitles, XLIFF/PO/JSON/ARB, HTML, Images</p>
               </div>
             )}
 
@@ -2250,7 +2795,7 @@ const App: React.FC = () => {
                 {/* Add More */}
                 {globalStatus !== AppStatus.TRANSLATING && (
                   <div className="border border-dashed border-slate-600 rounded-lg p-3 flex items-center justify-center gap-2 text-slate-400 hover:text-blue-300 hover:border-blue-400 hover:bg-slate-800/50 cursor-pointer transition-all" onClick={() => fileInputRef.current?.click()}>
-                     <input type="file" ref={fileInputRef} onChange={handleFileChange} className="hidden" multiple accept=".md,.txt,.xlsx,.xls,.csv,.pptx,.png,.jpg,.jpeg,.webp" />
+                     <input type="file" ref={fileInputRef} onChange={handleFileChange} className="hidden" multiple accept=".md,.txt,.xlsx,.xls,.csv,.tsv,.pptx,.docx,.odt,.ods,.odp,.pdf,.srt,.vtt,.ass,.ssa,.xlf,.xliff,.po,.pot,.json,.arb,.html,.htm,.png,.jpg,.jpeg,.webp" />
                      <IconUpload className="w-4 h-4" /> <span className="text-sm">Add more files</span>
                   </div>
                 )}
@@ -2263,6 +2808,12 @@ const App: React.FC = () => {
                           {item.type === FileType.EXCEL ? <IconExcel className="w-5 h-5 text-green-400" /> : 
                            item.type === FileType.IMAGE ? <IconImage className="w-5 h-5 text-orange-400" /> :
                            item.type === FileType.PPTX ? <IconPptx className="w-5 h-5 text-orange-500" /> :
+                           item.type === FileType.DOCX ? <IconDocx className="w-5 h-5 text-sky-400" /> :
+                           item.type === FileType.ODF ? <IconOdf className="w-5 h-5 text-lime-400" /> :
+                           item.type === FileType.CSV ? <IconCsv className="w-5 h-5 text-emerald-400" /> :
+                           item.type === FileType.SUBTITLE ? <IconSubtitle className="w-5 h-5 text-pink-400" /> :
+                           item.type === FileType.I18N ? <IconI18n className="w-5 h-5 text-teal-400" /> :
+                           item.type === FileType.HTML ? <IconHtml className="w-5 h-5 text-amber-400" /> :
                            <IconMarkdown className="w-5 h-5 text-blue-400" />}
                         </div>
                         <div className="flex-1 min-w-0">
@@ -2304,6 +2855,24 @@ const App: React.FC = () => {
                                   </div>
                                 </div>
                               )}
+                              {item.status === AppStatus.COMPLETED && item.warnings && item.warnings.length > 0 && (
+                                <div className="mt-2 p-2 bg-yellow-500/10 border border-yellow-500/30 rounded-md">
+                                  <p className="text-xs font-semibold text-yellow-300 mb-0.5">⚠️ Warnings</p>
+                                  <ul className="list-disc list-inside text-[11px] text-yellow-400/80 leading-snug">
+                                    {item.warnings.map((warning, idx) => <li key={idx}>{warning}</li>)}
+                                  </ul>
+                                </div>
+                              )}
+                              {item.status === AppStatus.COMPLETED && item.formulaChanges && item.formulaChanges.length > 0 && (
+                                <details className="mt-2 p-2 bg-blue-500/10 border border-blue-500/30 rounded-md">
+                                  <summary className="text-xs font-semibold text-blue-300 cursor-pointer">ƒx Formula strings translated ({item.formulaChanges.length})</summary>
+                                  <ul className="mt-1 max-h-40 overflow-y-auto text-[11px] text-blue-200/80 leading-snug space-y-0.5">
+                                    {item.formulaChanges.map((change, idx) => (
+                                      <li key={idx}><span className="text-slate-400">{change.sheet}!{change.cell}:</span> "{change.original}" → "{change.translated}"</li>
+                                    ))}
+                                  </ul>
+                                </details>
+                              )}
                             </>
                           )}
                         </div>
@@ -2323,8 +2892,28 @@ const App: React.FC = () => {
                                <IconEye className="w-4 h-4" />
                              </button>
                            )}
-                           {item.downloadUrl && (
-                             <a href={item.downloadUrl} download={`translated_${targetLang}_${item.file.name}${item.type === FileType.IMAGE ? '.md' : ''}`} className="p-1.5 bg-green-500/10 text-green-400 hover:bg-green-500/20 rounded-md transition-colors" title="Download file"><IconDownload className="w-4 h-4" /></a>
+                           {item.downloadUrl && !item.imageCandidates && (
+                             <a href={item.downloadUrl} download={getDownloadName(item.file.name, item.type, targetLang, item.resultBlob)} className="p-1.5 bg-green-500/10 text-green-400 hover:bg-green-500/20 rounded-md transition-colors" title="Download file"><IconDownload className="w-4 h-4" /></a>
+                           )}
+                           {item.type === FileType.SUBTITLE && (
+                             <button onClick={() => toggleExpand(item.id)} className={`p-1.5 rounded-md transition-colors ${item.isExpanded ? 'bg-slate-600 text-white' : 'hover:bg-slate-700 text-slate-400'}`} title="Subtitle Options">
+                               {item.isExpanded ? <IconChevronUp className="w-4 h-4" /> : <IconChevronDown className="w-4 h-4" />}
+                             </button>
+                           )}
+                           {item.type === FileType.PPTX && (
+                             <button onClick={() => toggleExpand(item.id)} className={`p-1.5 rounded-md transition-colors ${item.isExpanded ? 'bg-slate-600 text-white' : 'hover:bg-slate-700 text-slate-400'}`} title="Slides & Layout Options">
+                               {item.isExpanded ? <IconChevronUp className="w-4 h-4" /> : <IconChevronDown className="w-4 h-4" />}
+                             </button>
+                           )}
+                           {item.type === FileType.IMAGE && (
+                             <button onClick={() => toggleExpand(item.id)} className={`p-1.5 rounded-md transition-colors ${item.isExpanded ? 'bg-slate-600 text-white' : 'hover:bg-slate-700 text-slate-400'}`} title="Image Output Options">
+                               {item.isExpanded ? <IconChevronUp className="w-4 h-4" /> : <IconChevronDown className="w-4 h-4" />}
+                             </button>
+                           )}
+                           {item.type === FileType.CSV && (item.availableColumns || []).length > 0 && (
+                             <button onClick={() => toggleExpand(item.id)} className={`p-1.5 rounded-md transition-colors ${item.isExpanded ? 'bg-slate-600 text-white' : 'hover:bg-slate-700 text-slate-400'}`} title="Configure Columns">
+                               {item.isExpanded ? <IconChevronUp className="w-4 h-4" /> : <IconChevronDown className="w-4 h-4" />}
+                             </button>
                            )}
                            {item.type === FileType.EXCEL && item.availableSheets.length > 0 && (
                              <button onClick={() => toggleExpand(item.id)} className={`p-1.5 rounded-md transition-colors ${item.isExpanded ? 'bg-slate-600 text-white' : 'hover:bg-slate-700 text-slate-400'}`} title="Configure Sheets">
@@ -2352,6 +2941,283 @@ const App: React.FC = () => {
                               </label>
                             ))}
                           </div>
+                          {!/\.xls$/i.test(item.file.name) && (
+                            <div className="flex flex-wrap items-center gap-2 mt-3 pt-2 border-t border-slate-700">
+                              <span className="font-medium text-slate-400">Output:</span>
+                              <select
+                                value={item.excelBilingualMode || 'replace'}
+                                onChange={(e) => setQueue(prev => prev.map(q => q.id === item.id ? { ...q, excelBilingualMode: e.target.value as 'replace' | 'column' | 'sheet' | 'note' | 'inline' } : q))}
+                                disabled={item.status === AppStatus.TRANSLATING}
+                                className="bg-slate-700 border-none rounded py-1 px-2 text-xs text-white cursor-pointer"
+                              >
+                                <option value="replace">Translated workbook</option>
+                                <option value="column" disabled={item.excelHasShapes}>Bilingual: translation column after each source column</option>
+                                <option value="sheet" disabled={item.excelHasShapes}>Bilingual: translated copy of each sheet</option>
+                                <option value="note" disabled={item.excelHasShapes}>Bilingual: translation as a cell note</option>
+                                <option value="inline" disabled={item.excelHasShapes}>Bilingual: source and translation in the same cell</option>
+                              </select>
+                              {item.excelHasShapes ? (
+                                <span className="text-yellow-400/80">Bilingual output is not available: this workbook has shapes or charts that it would drop.</span>
+                              ) : (item.excelBilingualMode || 'replace') !== 'replace' && (
+                                <span className="text-slate-500">Sheet names stay in the source language.</span>
+                              )}
+                            </div>
+                          )}
+                          {!/\.xls$/i.test(item.file.name) && (
+                            <label className="flex items-center gap-1.5 mt-2 cursor-pointer select-none">
+                              <input
+                                type="checkbox"
+                                checked={!!item.translateFormulaStrings}
+                                onChange={(e) => setQueue(prev => prev.map(q => q.id === item.id ? { ...q, translateFormulaStrings: e.target.checked } : q))}
+                                disabled={item.status === AppStatus.TRANSLATING}
+                                className="rounded border-slate-500 bg-slate-800 text-blue-500 focus:ring-blue-500/50"
+                              />
+                              <span className="text-slate-300">Translate text inside formulas</span>
+                              <span className="text-slate-500">(e.g. =IF(A1="完了",…); changes are listed after translation)</span>
+                            </label>
+                          )}
+                          {/\.xls$/i.test(item.file.name) && (
+                            <div className="flex items-center gap-2 mt-3 pt-2 border-t border-slate-700">
+                              <span className="font-medium text-slate-400">Legacy .xls output:</span>
+                              <select
+                                value={item.legacyOutputFormat || 'xlsx'}
+                                onChange={(e) => setQueue(prev => prev.map(q => q.id === item.id ? { ...q, legacyOutputFormat: e.target.value as 'xls' | 'xlsx' } : q))}
+                                disabled={item.status === AppStatus.TRANSLATING}
+                                className="bg-slate-700 border-none rounded py-1 px-2 text-xs text-white cursor-pointer"
+                              >
+                                <option value="xlsx">Upgrade to .xlsx</option>
+                                <option value="xls">Keep .xls (BIFF8)</option>
+                              </select>
+                              <span className="text-slate-500">Formatting, images and charts are not preserved.</span>
+                            </div>
+                          )}
+                        </div>
+                      )}
+
+                      {item.isExpanded && item.type === FileType.SUBTITLE && (
+                        <div className="bg-slate-800/50 p-3 border-t border-slate-700 text-xs flex items-center gap-2">
+                          <span className="font-medium text-slate-400">Max characters per line:</span>
+                          <input
+                            type="number"
+                            min={0}
+                            max={120}
+                            value={item.subtitleMaxChars ?? 42}
+                            onChange={(e) => setQueue(prev => prev.map(q => q.id === item.id ? { ...q, subtitleMaxChars: Math.max(0, parseInt(e.target.value, 10) || 0) } : q))}
+                            disabled={item.status === AppStatus.TRANSLATING}
+                            className="w-16 bg-slate-700 border-none rounded py-1 px-2 text-xs text-white"
+                          />
+                          <span className="text-slate-500">0 = keep translated lines unwrapped</span>
+                        </div>
+                      )}
+
+                      {item.isExpanded && item.type === FileType.PPTX && (
+                        <div className="bg-slate-800/50 p-3 border-t border-slate-700 text-xs">
+                          <div className="flex flex-wrap items-center gap-3 mb-2">
+                            <span className="font-medium text-slate-400">Output:</span>
+                            <select
+                              value={item.pptxBilingualMode || 'replace'}
+                              onChange={(e) => setQueue(prev => prev.map(q => q.id === item.id ? { ...q, pptxBilingualMode: e.target.value as 'replace' | 'duplicate' | 'inline' | 'notes' } : q))}
+                              disabled={item.status === AppStatus.TRANSLATING}
+                              className="bg-slate-700 border-none rounded py-1 px-2 text-xs text-white cursor-pointer"
+                            >
+                              <option value="replace">Translated deck</option>
+                              <option value="duplicate">Bilingual: translated copy after each slide</option>
+                              <option value="inline">Bilingual: translation under the source text</option>
+                              <option value="notes">Translated deck, source text in speaker notes</option>
+                            </select>
+                          </div>
+                          <div className="flex flex-wrap items-center gap-3">
+                            <span className="font-medium text-slate-400">Text longer than its box:</span>
+                            <select
+                              value={item.pptxOverflowStrategy || 'autofit'}
+                              onChange={(e) => setQueue(prev => prev.map(q => q.id === item.id ? { ...q, pptxOverflowStrategy: e.target.value as 'autofit' | 'shrink' | 'report' } : q))}
+                              disabled={item.status === AppStatus.TRANSLATING}
+                              className="bg-slate-700 border-none rounded py-1 px-2 text-xs text-white cursor-pointer"
+                            >
+                              <option value="autofit">Shrink on overflow (autofit)</option>
+                              <option value="shrink">Reduce font sizes</option>
+                              <option value="report">Only report slides</option>
+                            </select>
+                            {item.pptxOverflowStrategy !== 'report' && (
+                              <>
+                                <span className="font-medium text-slate-400">Min font size:</span>
+                                <input
+                                  type="number"
+                                  min={6}
+                                  max={40}
+                                  value={item.pptxMinFontSize ?? 10}
+                                  onChange={(e) => setQueue(prev => prev.map(q => q.id === item.id ? { ...q, pptxMinFontSize: Math.max(6, parseInt(e.target.value, 10) || 6) } : q))}
+                                  disabled={item.status === AppStatus.TRANSLATING}
+                                  className="w-14 bg-slate-700 border-none rounded py-1 px-2 text-xs text-white"
+                                />
+                                <span className="text-slate-500">pt</span>
+                              </>
+                            )}
+                          </div>
+                          <div className="flex flex-wrap items-center gap-3 mt-2">
+                            <span className="font-medium text-slate-400">Also translate:</span>
+                            {([
+                              ['pptxTranslateAltText', 'Alt text'],
+                              ['pptxTranslateComments', 'Comments'],
+                              ['pptxTranslateTooltips', 'Hyperlink tooltips']
+                            ] as const).map(([key, label]) => (
+                              <label key={key} className="flex items-center gap-1.5 cursor-pointer select-none text-slate-300">
+                                <input
+                                  type="checkbox"
+                                  checked={item[key] ?? false}
+                                  onChange={(e) => setQueue(prev => prev.map(q => q.id === item.id ? { ...q, [key]: e.target.checked } : q))}
+                                  disabled={item.status === AppStatus.TRANSLATING}
+                                  className="rounded border-slate-500 bg-slate-800 text-blue-500 focus:ring-blue-500/50"
+                                />
+                                {label}
+                              </label>
+                            ))}
+                          </div>
+                          {(item.availableSlides || []).length > 0 && (
+                            <div className="mt-3 pt-2 border-t border-slate-700">
+                              <div className="flex justify-between items-center mb-2">
+                                 <p className="font-medium text-slate-400">Select Slides to Translate ({(item.selectedSlides || []).length}/{item.availableSlides!.length}):</p>
+                                 <div className="flex gap-2">
+                                   <button onClick={() => selectAllSlides(item.id)} disabled={item.status === AppStatus.TRANSLATING} className="text-blue-400 hover:text-blue-300 text-[10px] uppercase font-bold tracking-wider disabled:opacity-50 transition-colors">Select All</button>
+                                   <span className="text-slate-600">|</span>
+                                   <button onClick={() => deselectAllSlides(item.id)} disabled={item.status === AppStatus.TRANSLATING} className="text-slate-500 hover:text-slate-400 text-[10px] uppercase font-bold tracking-wider disabled:opacity-50 transition-colors">None</button>
+                                 </div>
+                              </div>
+                              <div className="grid grid-cols-3 gap-2 max-h-72 overflow-y-auto custom-scrollbar">
+                                {item.availableSlides!.map(slide => (
+                                  <label key={slide.number} className={`flex flex-col gap-1 p-1.5 rounded cursor-pointer select-none border ${(item.selectedSlides || []).includes(slide.number) ? 'bg-slate-700 border-blue-500/60' : 'bg-slate-800 border-slate-700 opacity-60'}`}>
+                                    {slide.thumbnail && <img src={slide.thumbnail} alt={`Slide ${slide.number}`} className="w-full rounded-sm" />}
+                                    <span className="flex items-center gap-1.5">
+                                      <input type="checkbox" checked={(item.selectedSlides || []).includes(slide.number)} onChange={() => toggleSlide(item.id, slide.number)} className="rounded border-slate-500 bg-slate-800 text-blue-500 focus:ring-blue-500/50" disabled={item.status === AppStatus.TRANSLATING} />
+                                      <span className="text-slate-200 truncate" title={slide.title}>{slide.number}. {slide.title}</span>
+                                    </span>
+                                  </label>
+                                ))}
+                              </div>
+                              <div className="flex flex-wrap gap-3 mt-2">
+                                {([
+                                  ['pptxIncludeNotes', 'Speaker notes'],
+                                  ['pptxIncludeMasters', 'Slide masters'],
+                                  ['pptxIncludeLayouts', 'Slide layouts']
+                                ] as const).map(([key, label]) => {
+                                  // Masters and layouts are shared with the original slides in duplicate mode
+                                  const shared = key !== 'pptxIncludeNotes' && item.pptxBilingualMode === 'duplicate';
+                                  return (
+                                    <label key={key} className="flex items-center gap-1.5 cursor-pointer select-none text-slate-300" title={shared ? 'Shared with the original slides, kept in the source language' : undefined}>
+                                      <input
+                                        type="checkbox"
+                                        checked={!shared && (item[key] ?? true)}
+                                        onChange={(e) => setQueue(prev => prev.map(q => q.id === item.id ? { ...q, [key]: e.target.checked } : q))}
+                                        disabled={shared || item.status === AppStatus.TRANSLATING}
+                                        className="rounded border-slate-500 bg-slate-800 text-blue-500 focus:ring-blue-500/50"
+                                      />
+                                      {label}
+                                    </label>
+                                  );
+                                })}
+                              </div>
+                            </div>
+                          )}
+                          {(item.availableImages || []).length > 0 && (
+                            <div className="mt-3 pt-2 border-t border-slate-700">
+                              <div className="flex justify-between items-center mb-2">
+                                 <p className="font-medium text-slate-400">Select Images to Translate ({(item.selectedImages || []).length}/{item.availableImages!.length}):</p>
+                                 <div className="flex gap-2">
+                                   <button onClick={() => detectImageText(item.id)} disabled={item.status === AppStatus.TRANSLATING} className="text-emerald-400 hover:text-emerald-300 text-[10px] uppercase font-bold tracking-wider disabled:opacity-50 transition-colors" title="Run OCR and select images that contain text">Detect Text</button>
+                                   <span className="text-slate-600">|</span>
+                                   <button onClick={() => selectAllImages(item.id)} disabled={item.status === AppStatus.TRANSLATING} className="text-blue-400 hover:text-blue-300 text-[10px] uppercase font-bold tracking-wider disabled:opacity-50 transition-colors">Select All</button>
+                                   <span className="text-slate-600">|</span>
+                                   <button onClick={() => deselectAllImages(item.id)} disabled={item.status === AppStatus.TRANSLATING} className="text-slate-500 hover:text-slate-400 text-[10px] uppercase font-bold tracking-wider disabled:opacity-50 transition-colors">None</button>
+                                 </div>
+                              </div>
+                              <div className="grid grid-cols-4 gap-2 max-h-56 overflow-y-auto custom-scrollbar">
+                                {item.availableImages!.map(image => (
+                                  <label key={image.path} className={`flex flex-col gap-1 p-1.5 rounded cursor-pointer select-none border ${(item.selectedImages || []).includes(image.path) ? 'bg-slate-700 border-blue-500/60' : 'bg-slate-800 border-slate-700 opacity-60'}`}>
+                                    <div className="h-16 flex items-center justify-center bg-slate-900 rounded-sm">
+                                      {image.thumbnail && <img src={image.thumbnail} alt={image.path} className="max-h-16 max-w-full object-contain" />}
+                                    </div>
+                                    <span className="flex items-center gap-1.5">
+                                      <input type="checkbox" checked={(item.selectedImages || []).includes(image.path)} onChange={() => toggleImage(item.id, image.path)} className="rounded border-slate-500 bg-slate-800 text-blue-500 focus:ring-blue-500/50" disabled={item.status === AppStatus.TRANSLATING} />
+                                      <span className="text-slate-400 truncate" title={image.path}>{image.slides.length > 0 ? `Slide ${image.slides.join(', ')}` : 'Layout/master'}</span>
+                                    </span>
+                                    {image.hasText !== undefined && (
+                                      <span className={`text-[10px] ${image.hasText ? 'text-emerald-400' : 'text-slate-500'}`}>{image.hasText ? 'Contains text' : 'No text'}</span>
+                                    )}
+                                  </label>
+                                ))}
+                              </div>
+                            </div>
+                          )}
+                        </div>
+                      )}
+
+                      {item.type === FileType.PPTX && item.status === AppStatus.COMPLETED && item.imageCandidates && (
+                        <div className="bg-slate-800/50 p-3 border-t border-slate-700 text-xs">
+                          <div className="flex justify-between items-center mb-2">
+                            <p className="font-medium text-slate-400">Review Translated Images ({item.imageCandidates.filter(c => c.accepted).length}/{item.imageCandidates.length} accepted):</p>
+                            <button onClick={() => finalizeImageReview(item.id)} className="px-3 py-1 bg-green-600 hover:bg-green-500 text-white rounded font-medium transition-colors">Finalize Deck</button>
+                          </div>
+                          <div className="flex flex-col gap-2 max-h-96 overflow-y-auto custom-scrollbar">
+                            {item.imageCandidates.map(candidate => (
+                              <div key={candidate.path} className={`flex items-center gap-2 p-2 rounded border ${candidate.accepted ? 'border-green-500/40 bg-green-500/5' : 'border-slate-700 bg-slate-800'}`}>
+                                <img src={`data:${candidate.mimeType};base64,${candidate.original}`} alt="Original" className="w-1/3 max-h-32 object-contain rounded-sm bg-slate-900" />
+                                <span className="text-slate-500">→</span>
+                                <img src={`data:${candidate.mimeType};base64,${candidate.translated}`} alt="Translated" className="w-1/3 max-h-32 object-contain rounded-sm bg-slate-900" />
+                                <div className="flex flex-col gap-1 ml-auto">
+                                  <button onClick={() => setImageDecision(item.id, candidate.path, true)} className={`px-2 py-1 rounded font-medium transition-colors ${candidate.accepted ? 'bg-green-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}>Accept</button>
+                                  <button onClick={() => setImageDecision(item.id, candidate.path, false)} className={`px-2 py-1 rounded font-medium transition-colors ${!candidate.accepted ? 'bg-red-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}>Reject</button>
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+
+                      {item.isExpanded && item.type === FileType.IMAGE && (
+                        <div className="bg-slate-800/50 p-3 border-t border-slate-700 text-xs flex flex-wrap items-center gap-3">
+                          <span className="font-medium text-slate-400">Output:</span>
+                          <select
+                            value={item.imageOutputMode || 'text'}
+                            onChange={(e) => setQueue(prev => prev.map(q => q.id === item.id ? { ...q, imageOutputMode: e.target.value as 'text' | 'image' } : q))}
+                            disabled={item.status === AppStatus.TRANSLATING}
+                            className="bg-slate-700 border-none rounded py-1 px-2 text-xs text-white cursor-pointer"
+                          >
+                            <option value="text">Translated text (Markdown)</option>
+                            <option value="image">Translated image (same size)</option>
+                          </select>
+                          {item.imageOutputMode === 'image' && (
+                            <label className="flex items-center gap-1.5 cursor-pointer select-none text-slate-300">
+                              <input
+                                type="checkbox"
+                                checked={item.includeOcrText ?? false}
+                                onChange={(e) => setQueue(prev => prev.map(q => q.id === item.id ? { ...q, includeOcrText: e.target.checked } : q))}
+                                disabled={item.status === AppStatus.TRANSLATING}
+                                className="rounded border-slate-500 bg-slate-800 text-blue-500 focus:ring-blue-500/50"
+                              />
+                              Also extract OCR text
+                            </label>
+                          )}
+                        </div>
+                      )}
+
+                      {item.isExpanded && item.type === FileType.CSV && (
+                        <div className="bg-slate-800/50 p-3 border-t border-slate-700 text-xs">
+                          <div className="flex justify-between items-center mb-2">
+                             <p className="font-medium text-slate-400">Select Columns to Translate:</p>
+                             <div className="flex gap-2">
+                               <button onClick={() => selectAllColumns(item.id)} disabled={item.status === AppStatus.TRANSLATING} className="text-blue-400 hover:text-blue-300 text-[10px] uppercase font-bold tracking-wider disabled:opacity-50 transition-colors">Select All</button>
+                               <span className="text-slate-600">|</span>
+                               <button onClick={() => deselectAllColumns(item.id)} disabled={item.status === AppStatus.TRANSLATING} className="text-slate-500 hover:text-slate-400 text-[10px] uppercase font-bold tracking-wider disabled:opacity-50 transition-colors">None</button>
+                             </div>
+                          </div>
+                          <div className="flex flex-wrap gap-2">
+                            {(item.availableColumns || []).map((column, colIdx) => (
+                              <label key={colIdx} className="flex items-center gap-1.5 bg-slate-700 px-2 py-1 rounded cursor-pointer hover:bg-slate-600 select-none">
+                                <input type="checkbox" checked={(item.selectedColumns || []).includes(colIdx)} onChange={() => toggleColumn(item.id, colIdx)} className="rounded border-slate-500 bg-slate-800 text-blue-500 focus:ring-blue-500/50" disabled={item.status === AppStatus.TRANSLATING} />
+                                <span className="text-slate-200">{column}</span>
+                              </label>
+                            ))}
+                          </div>
                         </div>
                       )}
                     </div>
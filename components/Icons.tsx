@@ -26,6 +26,12 @@ import {
   Image as ImageIcon,
   HelpCircle,
   Presentation,
+  FileType as WordIcon,
+  Table,
+  Captions,
+  Globe,
+  FileCode,
+  FileBox,
   RefreshCw,
   Shield,
   Key
@@ -35,6 +41,12 @@ export const IconUpload = ({ className }: { className?: string }) => <Upload cla
 export const IconMarkdown = ({ className }: { className?: string }) => <FileText className={className} />;
 export const IconExcel = ({ className }: { className?: string }) => <FileSpreadsheet className={className} />;
 export const IconPptx = ({ className }: { className?: string }) => <Presentation className={className} />;
+export const IconDocx = ({ className }: { className?: string }) => <WordIcon className={className} />;
+export const IconCsv = ({ className }: { className?: string }) => <Table className={className} />;
+export const IconSubtitle = ({ className }: { className?: string }) => <Captions className={className} />;
+export const IconI18n = ({ className }: { className?: string }) => <Globe className={className} />;
+export const IconHtml = ({ className }: { className?: string }) => <FileCode className={className} />;
+export const IconOdf = ({ className }: { className?: string }) => <FileBox className={className} />;
 export const IconImage = ({ className }: { className?: string }) => <ImageIcon className={className} />;
 export const IconSuccess = ({ className }: { className?: string }) => <CheckCircle className={className} />;
 export const IconError = ({ className }: { className?: string }) => <AlertCircle className={className} />;
@@ -0,0 +1,303 @@
+import { translateBatchStrings, detectLanguage } from './geminiService';
+import { SupportedLanguage, GlossaryItem, BlacklistItem } from '../types';
+
+export type CsvEncoding = 'utf-8' | 'utf-8-bom' | 'shift_jis';
+
+export interface CsvDialect {
+  delimiter: string;
+  lineEnding: '\r\n' | '\n';
+  encoding: CsvEncoding;
+  hasTrailingNewline: boolean;
+}
+
+interface CsvField {
+  value: string;
+  quoted: boolean;
+}
+
+const CANDIDATE_DELIMITERS = [',', '\t', ';', '|'];
+
+// --- ENCODING ---
+
+/**
+ * Detect text encoding: BOM first, then strict UTF-8, otherwise Shift_JIS
+ * (the usual encoding of CSV exported by Japanese Excel).
+ */
+export const detectCsvEncoding = (bytes: Uint8Array): CsvEncoding => {
+  if (bytes.length >= 3 && bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) return 'utf-8-bom';
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return 'utf-8';
+  } catch {
+    return 'shift_jis';
+  }
+};
+
+const decodeCsvBytes = (bytes: Uint8Array, encoding: CsvEncoding): string => {
+  if (encoding === 'shift_jis') return new TextDecoder('shift_jis').decode(bytes);
+  // TextDecoder strips the BOM for us
+  return new TextDecoder('utf-8').decode(bytes);
+};
+
+// Reverse Shift_JIS table, built lazily from the browser's decoder
+let shiftJisTable: Map<string, number[]> | null = null;
+
+const getShiftJisTable = (): Map<string, number[]> => {
+  if (shiftJisTable) return shiftJisTable;
+  const decoder = new TextDecoder('shift_jis', { fatal: true });
+  const table = new Map<string, number[]>();
+
+  // Half-width katakana (single byte)
+  for (let b = 0xA1; b <= 0xDF; b++) {
+    table.set(decoder.decode(new Uint8Array([b])), [b]);
+  }
+  // Double-byte characters
+  for (let lead = 0x81; lead <= 0xFC; lead++) {
+    if (lead > 0x9F && lead < 0xE0) continue;
+    for (let trail = 0x40; trail <= 0xFC; trail++) {
+      if (trail === 0x7F) continue;
+      try {
+        const char = decoder.decode(new Uint8Array([lead, trail]));
+        if (!table.has(char)) table.set(char, [lead, trail]);
+      } catch {
+        // Unassigned code point
+      }
+    }
+  }
+  shiftJisTable = table;
+  return table;
+};
+
+/**
+ * Encode text back to the original encoding.
+ * Characters that Shift_JIS cannot represent are replaced with '?' and counted,
+ * so the caller can decide to fall back to UTF-8.
+ */
+export const encodeCsvText = (text: string, encoding: CsvEncoding): { bytes: Uint8Array, unmappable: number } => {
+  if (encoding !== 'shift_jis') {
+    const body = new TextEncoder().encode(text);
+    if (encoding === 'utf-8') return { bytes: body, unmappable: 0 };
+    const withBom = new Uint8Array(body.length + 3);
+    withBom.set([0xEF, 0xBB, 0xBF]);
+    withBom.set(body, 3);
+    return { bytes: withBom, unmappable: 0 };
+  }
+
+  const table = getShiftJisTable();
+  const out: number[] = [];
+  let unmappable = 0;
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (code < 0x80) {
+      out.push(code);
+      continue;
+    }
+    const mapped = table.get(char);
+    if (mapped) {
+      out.push(...mapped);
+    } else {
+      out.push(0x3F); // '?'
+      unmappable++;
+    }
+  }
+  return { bytes: new Uint8Array(out), unmappable };
+};
+
+// --- PARSING ---
+
+/**
+ * Pick the delimiter that gives the most consistent column count over the first lines
+ */
+export const detectCsvDelimiter = (text: string, fileName: string = ''): string => {
+  if (fileName.toLowerCase().endsWith('.tsv')) return '\t';
+
+  const sampleLines = text.split(/\r?\n/).filter(l => l.length > 0).slice(0, 10);
+  let best = ',';
+  let bestScore = 0;
+
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const counts = sampleLines.map(line => parseCsv(line, delimiter)[0]?.length || 0);
+    if (counts.length === 0 || counts[0] < 2) continue;
+    const consistent = counts.filter(c => c === counts[0]).length;
+    const score = consistent * counts[0];
+    if (score > bestScore) {
+      bestScore = score;
+      best = delimiter;
+    }
+  }
+  return best;
+};
+
+/**
+ * RFC 4180 parser that remembers which fields were quoted
+ */
+export const parseCsv = (text: string, delimiter: string): CsvField[][] => {
+  const rows: CsvField[][] = [];
+  let row: CsvField[] = [];
+  let value = '';
+  let quoted = false;
+  let inQuotes = false;
+  let fieldStarted = false;
+
+  const endField = () => {
+    row.push({ value, quoted });
+    value = '';
+    quoted = false;
+    fieldStarted = false;
+  };
+  const endRow = () => {
+    endField();
+    rows.push(row);
+    row = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          value += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        value += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' && !fieldStarted) {
+      inQuotes = true;
+      quoted = true;
+      fieldStarted = true;
+    } else if (ch === delimiter) {
+      endField();
+    } else if (ch === '\r' && text[i + 1] === '\n') {
+      endRow();
+      i++;
+    } else if (ch === '\n') {
+      endRow();
+    } else {
+      value += ch;
+      fieldStarted = true;
+    }
+  }
+
+  if (fieldStarted || row.length > 0) endRow();
+  return rows;
+};
+
+export const serializeCsv = (rows: CsvField[][], dialect: CsvDialect): string => {
+  const needsQuotes = (value: string) =>
+    value.includes(dialect.delimiter) || value.includes('"') || value.includes('\n') || value.includes('\r');
+
+  const body = rows.map(row => row.map(field => {
+    if (field.quoted || needsQuotes(field.value)) {
+      return `"${field.value.replace(/"/g, '""')}"`;
+    }
+    return field.value;
+  }).join(dialect.delimiter)).join(dialect.lineEnding);
+
+  return dialect.hasTrailingNewline ? body + dialect.lineEnding : body;
+};
+
+const readCsvFile = async (file: File): Promise<{ text: string, dialect: CsvDialect }> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const encoding = detectCsvEncoding(bytes);
+  const text = decodeCsvBytes(bytes, encoding);
+  return {
+    text,
+    dialect: {
+      delimiter: detectCsvDelimiter(text, file.name),
+      lineEnding: text.includes('\r\n') ? '\r\n' : '\n',
+      encoding,
+      hasTrailingNewline: /\r?\n$/.test(text)
+    }
+  };
+};
+
+// --- PUBLIC API ---
+
+/**
+ * Read the header row so the user can choose which columns to translate
+ */
+export const getCsvColumns = async (file: File): Promise<string[]> => {
+  const { text, dialect } = await readCsvFile(file);
+  const firstLine = parseCsv(text, dialect.delimiter)[0] || [];
+  return firstLine.map((field, idx) => field.value.trim() || `Column ${idx + 1}`);
+};
+
+/**
+ * Process CSV/TSV file: translate text in the selected columns (0-based indexes)
+ * and write it back with the same delimiter, quoting, line endings and encoding.
+ */
+export const processCsv = async (
+  file: File,
+  targetLang: SupportedLanguage,
+  selectedColumns: number[],
+  context: string,
+  glossary: GlossaryItem[],
+  onProgress: (msg: string, percent: number) => void,
+  skipAlreadyTranslated: boolean = true,
+  sourceLang: string = 'auto',
+  blacklist: BlacklistItem[] = []
+): Promise<{ blob: Blob, originalText: string, translatedText: string, warnings: string[] }> => {
+  onProgress('Detecting CSV encoding and delimiter...', 5);
+  const { text, dialect } = await readCsvFile(file);
+  const delimiterName = dialect.delimiter === '\t' ? 'tab' : `"${dialect.delimiter}"`;
+  onProgress(`Detected ${dialect.encoding.toUpperCase()}, delimiter ${delimiterName}...`, 8);
+
+  const rows = parseCsv(text, dialect.delimiter);
+  const columnSet = new Set(selectedColumns);
+  const targetLangCode = targetLang.toLowerCase().substring(0, 2);
+
+  // 1. Collect translatable fields (skip numbers, dates and codes without letters)
+  const fields: CsvField[] = [];
+  rows.forEach(row => row.forEach((field, colIdx) => {
+    if (!columnSet.has(colIdx)) return;
+    if (!/\p{L}/u.test(field.value)) return;
+    if (skipAlreadyTranslated && detectLanguage(field.value) === targetLangCode) return;
+    fields.push(field);
+  }));
+
+  // 2. Translate in batches
+  if (fields.length > 0) {
+    const BATCH_SIZE = 40;
+    const totalBatches = Math.ceil(fields.length / BATCH_SIZE);
+    onProgress(`Translating ${fields.length} fields in ${totalBatches} batches...`, 10);
+
+    for (let i = 0; i < fields.length; i += BATCH_SIZE) {
+      const batch = fields.slice(i, i + BATCH_SIZE);
+      const batchNumber = Math.floor(i / BATCH_SIZE) + 1;
+      onProgress(`Translating field batch ${batchNumber}/${totalBatches}...`, 10 + Math.floor((i / fields.length) * 80));
+
+      const translated = await translateBatchStrings(batch.map(f => f.value), targetLang, context, glossary, sourceLang, blacklist);
+      batch.forEach((field, idx) => {
+        if (translated[idx]) field.value = translated[idx];
+      });
+    }
+  } else {
+    onProgress('No translatable text in the selected columns...', 90);
+  }
+
+  // 3. Write back in the original dialect and encoding
+  onProgress('Writing CSV in original encoding...', 95);
+  const translatedText = serializeCsv(rows, dialect);
+  let { bytes, unmappable } = encodeCsvText(translatedText, dialect.encoding);
+  let outputEncoding = dialect.encoding;
+  const warnings: string[] = [];
+  if (unmappable > 0) {
+    // e.g. Vietnamese diacritics have no Shift_JIS code: keep the text intact instead of writing '?'
+    warnings.push(`${unmappable} characters cannot be represented in Shift_JIS, so the file was saved as UTF-8 with BOM instead of the original encoding.`);
+    onProgress(`Target language not representable in Shift_JIS, saving as UTF-8 (BOM)...`, 97);
+    outputEncoding = 'utf-8-bom';
+    bytes = encodeCsvText(translatedText, outputEncoding).bytes;
+  }
+
+  onProgress('Done', 100);
+  const mimeType = dialect.delimiter === '\t' ? 'text/tab-separated-values' : 'text/csv';
+  const charset = outputEncoding === 'shift_jis' ? 'shift_jis' : 'utf-8';
+  const blob = new Blob([bytes], { type: `${mimeType};charset=${charset}` });
+  return { blob, originalText: text, translatedText, warnings };
+};
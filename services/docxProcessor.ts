@@ -0,0 +1,157 @@
+import JSZip from 'jszip';
+import { translateBatchStrings, detectLanguage } from './geminiService';
+import { SupportedLanguage, GlossaryItem, BlacklistItem } from '../types';
+import { encodeRunSegments, decodeRunSegments } from './runSegments';
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const XML_NS = 'http://www.w3.org/XML/1998/namespace';
+
+/**
+ * Parts of a .docx package that carry user-visible text
+ */
+const isTranslatableDocxPart = (path: string): boolean =>
+  path === 'word/document.xml' ||
+  path === 'word/footnotes.xml' ||
+  path === 'word/endnotes.xml' ||
+  path === 'word/comments.xml' ||
+  /^word\/(header|footer)\d*\.xml$/.test(path);
+
+/**
+ * Runs that belong directly to this paragraph (runs inside a nested text box
+ * paragraph are handled when that paragraph is visited).
+ */
+const getOwnTextRuns = (paragraph: Element): Element[] => {
+  return Array.from(paragraph.getElementsByTagNameNS(W_NS, 'r')).filter(run => {
+    let parent = run.parentElement;
+    while (parent && !(parent.namespaceURI === W_NS && parent.localName === 'p')) {
+      parent = parent.parentElement;
+    }
+    return parent === paragraph && run.getElementsByTagNameNS(W_NS, 't').length > 0;
+  });
+};
+
+// Run content that separates pieces of text (tabs, line breaks, special hyphens, symbols)
+const RUN_BOUNDARY_ELEMENTS = new Set(['tab', 'ptab', 'br', 'cr', 'noBreakHyphen', 'softHyphen', 'sym']);
+
+/**
+ * Split a run into its text pieces: the <w:t> elements between two boundary elements.
+ * Each piece is translated as its own segment so "A<w:tab/>B" keeps the tab between A and B.
+ */
+const getTextPieces = (run: Element): Element[][] => {
+  const pieces: Element[][] = [[]];
+  Array.from(run.children).forEach(child => {
+    if (child.namespaceURI !== W_NS) return;
+    if (RUN_BOUNDARY_ELEMENTS.has(child.localName)) pieces.push([]);
+    else if (child.localName === 't') pieces[pieces.length - 1].push(child);
+  });
+  return pieces.filter(piece => piece.length > 0);
+};
+
+const getPieceText = (piece: Element[]): string =>
+  piece.map(t => t.textContent || '').join('');
+
+/**
+ * Write text into the first <w:t> of a piece and drop the rest,
+ * keeping <w:rPr> (formatting) and boundary elements untouched.
+ */
+const setPieceText = (piece: Element[], text: string) => {
+  piece[0].textContent = text;
+  piece[0].setAttributeNS(XML_NS, 'xml:space', 'preserve');
+  piece.slice(1).forEach(t => t.parentNode?.removeChild(t));
+};
+
+/**
+ * Process Word (.docx) file: translate body, headers, footers, footnotes and comments
+ * paragraph by paragraph while keeping run formatting.
+ */
+export const processDocx = async (
+  file: File,
+  targetLang: SupportedLanguage,
+  context: string,
+  glossary: GlossaryItem[],
+  onProgress: (msg: string, percent: number) => void,
+  skipAlreadyTranslated: boolean = true,
+  sourceLang: string = 'auto',
+  blacklist: BlacklistItem[] = []
+): Promise<Blob> => {
+  onProgress('Unzipping Word document...', 5);
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+
+  const xmlFiles = Object.keys(zip.files).filter(isTranslatableDocxPart);
+  if (!xmlFiles.includes('word/document.xml')) {
+    throw new Error('Invalid Word document: word/document.xml not found');
+  }
+
+  onProgress(`Scanning ${xmlFiles.length} document parts for text...`, 10);
+
+  const parser = new DOMParser();
+  const serializer = new XMLSerializer();
+
+  interface ParagraphRef {
+    filePath: string;
+    pieces: Element[][]; // Text pieces of all runs, in document order
+    text: string;
+  }
+  const paragraphs: ParagraphRef[] = [];
+  const docs = new Map<string, Document>();
+  const targetLangCode = targetLang.toLowerCase().substring(0, 2);
+
+  // 1. Collect paragraphs (w:p) with their text runs
+  for (const path of xmlFiles) {
+    const xml = await zip.file(path)?.async('string');
+    if (!xml) continue;
+    const doc = parser.parseFromString(xml, 'application/xml');
+    docs.set(path, doc);
+
+    Array.from(doc.getElementsByTagNameNS(W_NS, 'p')).forEach(p => {
+      const pieces = getOwnTextRuns(p).flatMap(getTextPieces);
+      if (pieces.length === 0) return;
+
+      const pieceTexts = pieces.map(getPieceText);
+      const plainText = pieceTexts.join('');
+      if (plainText.trim().length === 0) return;
+
+      // Smart mode: skip paragraphs already in target language
+      if (skipAlreadyTranslated && detectLanguage(plainText) === targetLangCode) return;
+
+      paragraphs.push({ filePath: path, pieces, text: encodeRunSegments(pieceTexts) });
+    });
+  }
+
+  // 2. Translate paragraphs in batches
+  if (paragraphs.length > 0) {
+    const BATCH_SIZE = 40;
+    const totalBatches = Math.ceil(paragraphs.length / BATCH_SIZE);
+    onProgress(`Translating ${paragraphs.length} paragraphs in ${totalBatches} batches...`, 15);
+
+    for (let i = 0; i < paragraphs.length; i += BATCH_SIZE) {
+      const chunk = paragraphs.slice(i, i + BATCH_SIZE);
+      const batchNumber = Math.floor(i / BATCH_SIZE) + 1;
+      onProgress(`Translating paragraph batch ${batchNumber}/${totalBatches}...`, 15 + Math.floor((i / paragraphs.length) * 75));
+
+      const translated = await translateBatchStrings(chunk.map(p => p.text), targetLang, context, glossary, sourceLang, blacklist);
+      chunk.forEach((paragraph, idx) => {
+        if (!translated[idx]) return;
+        const pieceTexts = decodeRunSegments(translated[idx], paragraph.pieces.length);
+        paragraph.pieces.forEach((piece, pieceIdx) => setPieceText(piece, pieceTexts[pieceIdx]));
+      });
+    }
+
+    // 3. Write updated XML parts back into the package
+    const touchedPaths = new Set(paragraphs.map(p => p.filePath));
+    touchedPaths.forEach(path => {
+      const doc = docs.get(path);
+      if (doc) zip.file(path, serializer.serializeToString(doc));
+    });
+  } else {
+    onProgress('No translatable text found, keeping document as-is...', 90);
+  }
+
+  onProgress('Finalizing Word document...', 95);
+  const blob = await zip.generateAsync({
+    type: 'blob',
+    mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+  });
+  onProgress('Done', 100);
+  return blob;
+};
@@ -0,0 +1,233 @@
+import JSZip from 'jszip';
+import { translateBatchStrings, detectLanguage } from './geminiService';
+import { readRelationships } from './opcPackage';
+import { SupportedLanguage, GlossaryItem, BlacklistItem } from '../types';
+
+/**
+ * Excel Annotations - translate the workbook text that lives outside cell values:
+ * notes (legacy comments), threaded comments, data-validation dropdown lists and
+ * prompts, and print headers/footers.
+ *
+ * Runs as a ZIP pass over the finished XLSX so both processExcel (ExcelJS) and
+ * processExcelWithShapes (xlsx-populate) share it. Sheets are addressed by their
+ * position in workbook order, which survives sheet renaming.
+ */
+
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const XML_NS = 'http://www.w3.org/XML/1998/namespace';
+
+const BATCH_SIZE = 40;
+const HEADER_FOOTER_TAGS = ['oddHeader', 'oddFooter', 'evenHeader', 'evenFooter', 'firstHeader', 'firstFooter'];
+const VALIDATION_ATTRIBUTES = ['promptTitle', 'prompt', 'errorTitle', 'error'];
+
+// Excel rejects list validations whose literal formula exceeds 255 characters
+const MAX_LIST_FORMULA_LENGTH = 255;
+
+// Header/footer codes: &L &C &R sections, &P page, &"font,style", &12 size, &K colour, && literal
+const HEADER_FOOTER_CODE = /&(?:"[^"]*"|K[0-9A-Fa-f]{6}|K\d{2}[+-]\d{3}|\d+|[\s\S])/g;
+
+interface AnnotationUnit {
+  source: string;
+  apply: (translated: string) => void;
+}
+
+interface DropdownList {
+  sheetName: string;
+  range: string;
+  formula: Element;
+  entries: string[];
+  translated: string[];
+}
+
+const maskHeaderFooter = (text: string): { masked: string, tokens: string[] } => {
+  const tokens: string[] = [];
+  const masked = text.replace(HEADER_FOOTER_CODE, (match) => {
+    tokens.push(match);
+    return `<t${tokens.length - 1}/>`;
+  });
+  return { masked, tokens };
+};
+
+const unmaskHeaderFooter = (text: string, tokens: string[]): string => {
+  // A lone & in the translation would start a new code
+  const restored = text
+    .replace(/&/g, '&&')
+    .replace(/<t(\d+)\/>/g, (_, idx) => tokens[parseInt(idx, 10)] ?? '');
+  // Codes the model dropped (page numbers, section switches) are appended so nothing is lost
+  const missing = tokens.filter((_, idx) => !text.includes(`<t${idx}/>`));
+  return missing.length > 0 ? restored + missing.join('') : restored;
+};
+
+/**
+ * Split a literal list formula ("Yes,No,Maybe") into its entries.
+ * Returns null for range or named references, which are translated as cells instead.
+ */
+export const parseListFormula = (formula: string): string[] | null => {
+  const match = formula.trim().match(/^"([\s\S]*)"$/);
+  if (!match) return null;
+  return match[1].replace(/""/g, '"').split(',');
+};
+
+export const buildListFormula = (entries: string[]): string =>
+  `"${entries.map(entry => entry.replace(/"/g, '""')).join(',')}"`;
+
+/**
+ * Resolve the worksheet part of each requested sheet position (0-based, workbook order)
+ */
+const getSheetParts = async (zip: JSZip, sheetPositions: number[]): Promise<{ name: string, path: string }[]> => {
+  const xml = await zip.file('xl/workbook.xml')?.async('string');
+  if (!xml) return [];
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const rels = await readRelationships(zip, 'xl/workbook.xml');
+  const sheets = Array.from(doc.getElementsByTagNameNS(MAIN_NS, 'sheet'));
+
+  return sheetPositions
+    .filter(pos => sheets[pos])
+    .map(pos => ({
+      name: sheets[pos].getAttribute('name') || '',
+      path: rels.get(sheets[pos].getAttributeNS(R_NS, 'id') || '') || ''
+    }))
+    .filter(sheet => sheet.path && zip.file(sheet.path));
+};
+
+/**
+ * Translate notes, threaded comments, data-validation lists/prompts and headers/footers
+ * of the given sheets. Returns the rewritten XLSX buffer and warnings for dropdown lists
+ * that had to stay in the source language.
+ */
+export const translateWorkbookAnnotations = async (
+  buffer: ArrayBuffer | Uint8Array,
+  sheetPositions: number[],
+  targetLang: SupportedLanguage,
+  context: string,
+  glossary: GlossaryItem[],
+  onProgress: (msg: string, percent: number) => void,
+  skipAlreadyTranslated: boolean = true,
+  sourceLang: string = 'auto',
+  blacklist: BlacklistItem[] = []
+): Promise<{ buffer: ArrayBuffer, warnings: string[] }> => {
+  const zip = await JSZip.loadAsync(buffer);
+  const sheetParts = await getSheetParts(zip, sheetPositions);
+  const targetLangCode = targetLang.toLowerCase().substring(0, 2);
+
+  const units: AnnotationUnit[] = [];
+  const addUnit = (source: string, apply: (translated: string) => void) => {
+    const plain = source.replace(/<t\d+\/>/g, '');
+    if (!/\p{L}/u.test(plain)) return;
+    if (skipAlreadyTranslated && detectLanguage(plain) === targetLangCode) return;
+    units.push({ source, apply });
+  };
+
+  const dropdownLists: DropdownList[] = [];
+  const warnings: string[] = [];
+
+  const docs = new Map<string, Document>();
+  const loadPart = async (path: string): Promise<Document | null> => {
+    if (docs.has(path)) return docs.get(path)!;
+    const xml = await zip.file(path)?.async('string');
+    if (!xml) return null;
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    docs.set(path, doc);
+    return doc;
+  };
+
+  for (const { name: sheetName, path: sheetPath } of sheetParts) {
+    const sheetDoc = await loadPart(sheetPath);
+    if (!sheetDoc) continue;
+
+    // 1. Data validation: literal dropdown lists plus input/error messages
+    Array.from(sheetDoc.getElementsByTagNameNS(MAIN_NS, 'dataValidation')).forEach(validation => {
+      VALIDATION_ATTRIBUTES.forEach(attr => {
+        const value = validation.getAttribute(attr);
+        if (value) addUnit(value, (translated) => validation.setAttribute(attr, translated));
+      });
+
+      if (validation.getAttribute('type') !== 'list') return;
+      const formula = validation.getElementsByTagNameNS(MAIN_NS, 'formula1')[0];
+      const entries = formula ? parseListFormula(formula.textContent || '') : null;
+      if (!formula || !entries) return;
+
+      // The list is rebuilt once all entries are translated, so it is replaced as a whole or not at all
+      const list: DropdownList = { sheetName, range: validation.getAttribute('sqref') || '', formula, entries, translated: [...entries] };
+      dropdownLists.push(list);
+      entries.forEach((entry, idx) => {
+        addUnit(entry, (translated) => {
+          // Commas separate entries, so they cannot appear inside one
+          list.translated[idx] = translated.replace(/\s*,\s*/g, ' ').trim();
+        });
+      });
+    });
+
+    // 2. Print headers and footers (codes masked as <tN/> tokens)
+    const headerFooter = sheetDoc.getElementsByTagNameNS(MAIN_NS, 'headerFooter')[0];
+    if (headerFooter) {
+      HEADER_FOOTER_TAGS.forEach(tag => {
+        const el = headerFooter.getElementsByTagNameNS(MAIN_NS, tag)[0];
+        const text = el?.textContent || '';
+        if (!text) return;
+        const { masked, tokens } = maskHeaderFooter(text);
+        addUnit(masked, (translated) => { el.textContent = unmaskHeaderFooter(translated, tokens); });
+      });
+    }
+
+    // 3. Notes and threaded comments attached to the sheet
+    const rels = await readRelationships(zip, sheetPath);
+    for (const partPath of Array.from(rels.values())) {
+      if (/^xl\/comments[^/]*\.xml$/.test(partPath)) {
+        const commentsDoc = await loadPart(partPath);
+        if (!commentsDoc) continue;
+
+        Array.from(commentsDoc.getElementsByTagNameNS(MAIN_NS, 'comment')).forEach(comment => {
+          const texts = Array.from(comment.getElementsByTagNameNS(MAIN_NS, 't'));
+          // Excel writes the author as a separate bold first run ("Author:")
+          const authorRun = texts.length > 1 && /^[^\n]{1,60}:\s*$/.test(texts[0].textContent || '') ? 1 : 0;
+          const body = texts.slice(authorRun);
+          if (body.length === 0) return;
+
+          addUnit(body.map(t => t.textContent || '').join(''), (translated) => {
+            body.forEach((t, idx) => { t.textContent = idx === 0 ? translated : ''; });
+            body[0].setAttributeNS(XML_NS, 'xml:space', 'preserve');
+          });
+        });
+      } else if (/^xl\/threadedComments\//.test(partPath)) {
+        const threadDoc = await loadPart(partPath);
+        if (!threadDoc) continue;
+
+        Array.from(threadDoc.getElementsByTagName('threadedComment')).forEach(threadedComment => {
+          const textEl = Array.from(threadedComment.childNodes)
+            .find((n): n is Element => n.nodeType === 1 && (n as Element).localName === 'text');
+          if (textEl?.textContent) addUnit(textEl.textContent, (translated) => { textEl.textContent = translated; });
+        });
+      }
+    }
+  }
+
+  if (units.length === 0) return { buffer: await zip.generateAsync({ type: 'arraybuffer' }), warnings };
+
+  const totalBatches = Math.ceil(units.length / BATCH_SIZE);
+  const annotationContext = `${context ? context + '\n' : ''}These are spreadsheet comments, dropdown options and page headers/footers. Keep <tN/> tokens.`;
+
+  for (let i = 0; i < units.length; i += BATCH_SIZE) {
+    const batch = units.slice(i, i + BATCH_SIZE);
+    onProgress(`Translating comments, dropdowns and headers (batch ${Math.floor(i / BATCH_SIZE) + 1}/${totalBatches})...`, 93);
+    const translated = await translateBatchStrings(batch.map(u => u.source), targetLang, annotationContext, glossary, sourceLang, blacklist);
+    batch.forEach((unit, idx) => {
+      if (translated[idx]) unit.apply(translated[idx]);
+    });
+  }
+
+  dropdownLists.forEach(list => {
+    if (list.translated.every((entry, idx) => entry === list.entries[idx])) return;
+    const rebuilt = buildListFormula(list.translated);
+    if (rebuilt.length <= MAX_LIST_FORMULA_LENGTH) {
+      list.formula.textContent = rebuilt;
+    } else {
+      warnings.push(`Sheet "${list.sheetName}": the dropdown list in ${list.range} was kept in the source language because its translation exceeds Excel's ${MAX_LIST_FORMULA_LENGTH}-character limit; translated cells may not match its options.`);
+    }
+  });
+
+  const serializer = new XMLSerializer();
+  docs.forEach((doc, path) => zip.file(path, serializer.serializeToString(doc)));
+  return { buffer: await zip.generateAsync({ type: 'arraybuffer' }), warnings };
+};
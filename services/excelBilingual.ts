@@ -0,0 +1,198 @@
+/**
+ * Excel Bilingual - output modes that keep the source text next to the translation.
+ *
+ *   - column: a translation column is inserted right after each translated source column
+ *             (inline instead on sheets where formulas, validations, ... address the columns)
+ *   - sheet:  every selected sheet is cloned as "<sheet> (VI)" and only the clone is translated
+ *   - note:   the source cell stays as-is and the translation is added as its note
+ *   - inline: the cell holds "source\ntranslation"
+ *
+ * These helpers work on ExcelJS worksheets; processExcel decides which cells they apply to.
+ */
+
+import ExcelJS from 'exceljs';
+import { quoteSheetName } from './excelReferences';
+
+export type ExcelBilingualMode = 'replace' | 'column' | 'sheet' | 'note' | 'inline';
+
+const MAX_SHEET_NAME_LENGTH = 31;
+
+/**
+ * Unique name for the translated clone of a sheet: "Data (VI)", "Data (VI) 2", ...
+ */
+export const getBilingualSheetName = (workbook: ExcelJS.Workbook, sheetName: string, langCode: string): string => {
+  const suffix = ` (${langCode.toUpperCase()})`;
+  for (let n = 1; ; n++) {
+    const counter = n > 1 ? ` ${n}` : '';
+    const base = sheetName.substring(0, MAX_SHEET_NAME_LENGTH - suffix.length - counter.length);
+    const name = `${base}${suffix}${counter}`;
+    if (!workbook.getWorksheet(name)) return name;
+  }
+};
+
+// Cell values that are objects (rich text, formulas, hyperlinks) are copied so translating
+// the clone cannot change the source sheet
+const copyCellValue = (value: ExcelJS.CellValue): ExcelJS.CellValue =>
+  value !== null && typeof value === 'object' ? structuredClone(value) : value;
+
+// Validations and conditional formatting have no typed getter; both are part of the worksheet model
+type WorksheetRulesModel = ExcelJS.WorksheetModel & {
+  dataValidations?: Record<string, ExcelJS.DataValidation | undefined>;
+  conditionalFormattings?: ExcelJS.ConditionalFormattingOptions[];
+};
+
+/**
+ * Copy a worksheet (values, styles, sizes, merges, validations, notes, conditional formatting,
+ * images, auto filter, page breaks) into a new sheet added at the end of the workbook.
+ * Tables are not copied: their names must be unique in a workbook.
+ */
+export const cloneWorksheet = (workbook: ExcelJS.Workbook, source: ExcelJS.Worksheet, name: string): ExcelJS.Worksheet => {
+  const clone = workbook.addWorksheet(name, {
+    properties: { ...source.properties },
+    pageSetup: { ...source.pageSetup },
+    headerFooter: { ...source.headerFooter },
+    // Only one tab may be selected: the source keeps it (tabSelected is read from the file but untyped)
+    views: (source.views || []).map(view => {
+      const { tabSelected, ...rest } = view as ExcelJS.WorksheetView & { tabSelected?: boolean };
+      return rest;
+    }),
+    state: source.state
+  });
+
+  // Column styles first: assigning them restyles every cell already in the column
+  (source.columns || []).forEach((column, idx) => {
+    const target = clone.getColumn(idx + 1);
+    if (column.width !== undefined) target.width = column.width;
+    if (column.hidden) target.hidden = true;
+    if (column.outlineLevel) target.outlineLevel = column.outlineLevel;
+    if (column.style && Object.keys(column.style).length > 0) target.style = { ...column.style };
+  });
+
+  source.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+    const targetRow = clone.getRow(rowNumber);
+    if (row.height !== undefined) targetRow.height = row.height;
+    if (row.hidden) targetRow.hidden = true;
+    if (row.outlineLevel) targetRow.outlineLevel = row.outlineLevel;
+
+    row.eachCell({ includeEmpty: true }, (cell, colNumber) => {
+      const target = targetRow.getCell(colNumber);
+      target.style = { ...cell.style };
+      // Cells covered by a merge take their value from the top-left cell
+      if (cell.type === ExcelJS.ValueType.Merge) return;
+      target.value = copyCellValue(cell.value);
+      if (cell.note) target.note = structuredClone(cell.note);
+    });
+  });
+
+  // Without style: the covered cells keep their own borders and fills
+  source.model.merges.forEach(range => clone.mergeCellsWithoutStyle(range));
+
+  const { autoFilter, rowBreaks } = source.model;
+  if (autoFilter) clone.autoFilter = structuredClone(autoFilter);
+  // The model is a snapshot, so breaks are added through their rows (min/max are 0-based columns)
+  (rowBreaks || []).forEach(pageBreak =>
+    clone.getRow(pageBreak.id).addPageBreak(pageBreak.min ? pageBreak.min + 1 : undefined, pageBreak.max + 1));
+
+  // Validations (also on empty cells) and conditional formatting
+  const { dataValidations, conditionalFormattings } = source.model as WorksheetRulesModel;
+  Object.entries(dataValidations || {}).forEach(([address, validation]) => {
+    if (validation) clone.getCell(address).dataValidation = structuredClone(validation);
+  });
+  (conditionalFormattings || []).forEach(formatting => clone.addConditionalFormatting(structuredClone(formatting)));
+
+  // The whole range: one-cell anchored images have ext instead of br, and editAs decides how they move
+  source.getImages().forEach(image => clone.addImage(Number(image.imageId), image.range));
+
+  return clone;
+};
+
+/**
+ * What keeps translation columns out of a sheet, or undefined if they can be inserted.
+ * Inserting columns moves cells and merges only: validations, conditional formatting,
+ * images, the auto filter, defined names and formulas would keep addressing the old columns.
+ */
+export const getColumnModeBlocker = (workbook: ExcelJS.Workbook, worksheet: ExcelJS.Worksheet): string | undefined => {
+  const { dataValidations, conditionalFormattings, autoFilter } = worksheet.model as WorksheetRulesModel;
+  if (Object.values(dataValidations || {}).some(Boolean)) return 'data validation';
+  if (conditionalFormattings?.length) return 'conditional formatting';
+  if (worksheet.getImages().length > 0) return 'images';
+  if (autoFilter) return 'an auto filter';
+
+  // Other sheets and defined names address this one by name
+  const reference = `${quoteSheetName(worksheet.name)}!`;
+  if (workbook.definedNames.model.some(name => name.ranges.some(range => range.startsWith(reference)))) {
+    return 'defined names';
+  }
+  let hasFormulas = false;
+  workbook.eachSheet(sheet => sheet.eachRow(row => row.eachCell(cell => {
+    if (cell.formula && (sheet === worksheet || cell.formula.includes(reference))) hasFormulas = true;
+  })));
+  return hasFormulas ? 'formulas' : undefined;
+};
+
+/**
+ * Insert one column after each source column, holding the translated values.
+ * `columns` maps source column number → (row number → translated value).
+ * Styles and widths follow the source column; merged ranges are shifted along.
+ * Check getColumnModeBlocker first: nothing else that addresses columns is moved.
+ */
+export const insertTranslationColumns = (
+  worksheet: ExcelJS.Worksheet,
+  columns: Map<number, Map<number, ExcelJS.CellValue>>
+) => {
+  // spliceColumns moves cells but not merges, so unmerge first and re-merge shifted
+  let merges = (worksheet.model.merges || []).map(range => {
+    const [from, to] = range.split(':');
+    const start = worksheet.getCell(from);
+    const end = worksheet.getCell(to || from);
+    return { range, top: +start.row, left: +start.col, bottom: +end.row, right: +end.col };
+  });
+  merges.forEach(merge => worksheet.unMergeCells(merge.range));
+
+  // Right to left, so column numbers still to be processed stay valid
+  Array.from(columns.keys()).sort((a, b) => b - a).forEach(col => {
+    const values = columns.get(col)!;
+    const lastRow = Math.max(...Array.from(values.keys()));
+    const insert: ExcelJS.CellValue[] = [];
+    for (let row = 1; row <= lastRow; row++) insert.push(values.get(row) ?? null);
+
+    worksheet.spliceColumns(col + 1, 0, insert);
+    worksheet.getColumn(col + 1).width = worksheet.getColumn(col).width;
+    values.forEach((_, row) => {
+      worksheet.getCell(row, col + 1).style = { ...worksheet.getCell(row, col).style };
+    });
+
+    merges = merges.map(merge => ({
+      ...merge,
+      left: merge.left > col ? merge.left + 1 : merge.left,
+      right: merge.right > col ? merge.right + 1 : merge.right
+    }));
+  });
+
+  merges.forEach(merge => worksheet.mergeCells(merge.top, merge.left, merge.bottom, merge.right));
+};
+
+const toRichTextParts = (value: ExcelJS.CellValue): ExcelJS.RichText[] => {
+  if (value && typeof value === 'object' && 'richText' in value) return value.richText;
+  return [{ text: value === null || value === undefined ? '' : String(value) }];
+};
+
+/**
+ * "source\ntranslation" in one cell, keeping rich text formatting of both parts
+ */
+export const combineInline = (source: ExcelJS.CellValue, translated: ExcelJS.CellValue): ExcelJS.CellValue => {
+  const isRich = (value: ExcelJS.CellValue) => !!value && typeof value === 'object' && 'richText' in value;
+  if (!isRich(source) && !isRich(translated)) return `${source}\n${translated}`;
+  return { richText: [...toRichTextParts(source), { text: '\n' }, ...toRichTextParts(translated)] };
+};
+
+/**
+ * Add text to a cell note, after any note the cell already has
+ */
+export const appendNote = (cell: ExcelJS.Cell, text: string) => {
+  const existing = cell.note;
+  const existingText = typeof existing === 'string'
+    ? existing
+    : existing?.texts?.map(t => t.text).join('') || '';
+  cell.note = existingText ? `${existingText}\n\n${text}` : text;
+};
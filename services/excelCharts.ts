@@ -0,0 +1,144 @@
+import JSZip from 'jszip';
+import { translateBatchStrings, detectLanguage } from './geminiService';
+import { encodeRunSegments, decodeRunSegments } from './runSegments';
+import { SupportedLanguage, GlossaryItem, BlacklistItem } from '../types';
+
+/**
+ * Excel Charts - translate chart titles, axis titles, series names and category labels
+ * in xl/charts/chart*.xml.
+ *
+ * Rich titles (c:rich) are translated paragraph by paragraph. String caches behind a
+ * cell reference (c:strRef) are refreshed from the already-translated workbook cells so
+ * the chart matches the sheet; only caches that cannot be resolved are translated on
+ * their own. Sheet references must already point at the renamed sheets (see excelReferences).
+ */
+
+const C_NS = 'http://schemas.openxmlformats.org/drawingml/2006/chart';
+const A_NS = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+
+const BATCH_SIZE = 40;
+
+// 'Sheet Name'!$A$1:$A$5 or Sheet1!$B$2 (unions and named ranges are left as-is)
+const SHEET_REFERENCE = /^(?:'((?:[^']|'')+)'|([^'!(),]+))!(\$?[A-Z]{1,3}\$?\d+(?::\$?[A-Z]{1,3}\$?\d+)?)$/;
+
+/**
+ * Cell values of a range in row-major order, or null if the sheet/range is unknown
+ */
+export type ChartReferenceResolver = (sheetName: string, range: string) => string[] | null;
+
+interface ChartUnit {
+  source: string;
+  apply: (translated: string) => void;
+}
+
+export const parseSheetReference = (formula: string): { sheetName: string, range: string } | null => {
+  const match = formula.trim().match(SHEET_REFERENCE);
+  if (!match) return null;
+  return { sheetName: match[1] !== undefined ? match[1].replace(/''/g, "'") : match[2], range: match[3] };
+};
+
+const getChildren = (parent: Element, localName: string): Element[] =>
+  Array.from(parent.childNodes).filter((n): n is Element =>
+    n.nodeType === 1 && (n as Element).namespaceURI === C_NS && (n as Element).localName === localName);
+
+/**
+ * Translate the text of every chart in the workbook. Returns the rewritten XLSX buffer.
+ */
+export const translateChartTexts = async (
+  buffer: ArrayBuffer | Uint8Array,
+  resolveReference: ChartReferenceResolver,
+  targetLang: SupportedLanguage,
+  context: string,
+  glossary: GlossaryItem[],
+  onProgress: (msg: string, percent: number) => void,
+  skipAlreadyTranslated: boolean = true,
+  sourceLang: string = 'auto',
+  blacklist: BlacklistItem[] = []
+): Promise<ArrayBuffer> => {
+  const zip = await JSZip.loadAsync(buffer);
+  const chartPaths = Object.keys(zip.files).filter(path => /^xl\/charts\/chart\d+\.xml$/.test(path));
+  const targetLangCode = targetLang.toLowerCase().substring(0, 2);
+
+  const units: ChartUnit[] = [];
+  const addUnit = (source: string, apply: (translated: string) => void) => {
+    const plain = source.replace(/<\/?r\d+>/g, '');
+    if (!/\p{L}/u.test(plain)) return;
+    if (skipAlreadyTranslated && detectLanguage(plain) === targetLangCode) return;
+    units.push({ source, apply });
+  };
+
+  const docs = new Map<string, Document>();
+  let resolvedCount = 0;
+
+  for (const chartPath of chartPaths) {
+    const xml = await zip.file(chartPath)?.async('string');
+    if (!xml) continue;
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    docs.set(chartPath, doc);
+
+    // 1. Rich titles (chart and axis titles, data labels)
+    Array.from(doc.getElementsByTagNameNS(C_NS, 'rich')).forEach(rich => {
+      Array.from(rich.getElementsByTagNameNS(A_NS, 'p')).forEach(paragraph => {
+        const runs = Array.from(paragraph.getElementsByTagNameNS(A_NS, 'r'))
+          .map(r => r.getElementsByTagNameNS(A_NS, 't')[0])
+          .filter((t): t is Element => !!t);
+        if (runs.length === 0) return;
+
+        addUnit(encodeRunSegments(runs.map(t => t.textContent || '')), (translated) => {
+          decodeRunSegments(translated, runs.length).forEach((text, idx) => { runs[idx].textContent = text; });
+        });
+      });
+    });
+
+    // 2. String caches: refresh from the translated cells, translate what cannot be resolved
+    Array.from(doc.getElementsByTagNameNS(C_NS, 'strRef')).forEach(strRef => {
+      const f = getChildren(strRef, 'f')[0];
+      const cache = getChildren(strRef, 'strCache')[0];
+      if (!cache) return;
+
+      const ref = f ? parseSheetReference(f.textContent || '') : null;
+      const values = ref ? resolveReference(ref.sheetName, ref.range) : null;
+
+      getChildren(cache, 'pt').forEach(pt => {
+        const v = getChildren(pt, 'v')[0];
+        if (!v) return;
+        const idx = parseInt(pt.getAttribute('idx') || '0', 10);
+        const cellValue = values?.[idx];
+
+        if (cellValue) {
+          v.textContent = cellValue;
+          resolvedCount++;
+        } else if (v.textContent) {
+          addUnit(v.textContent, (translated) => { v.textContent = translated; });
+        }
+      });
+    });
+
+    // 3. Literal strings and multi-level category caches have no single cell to follow
+    ['strLit', 'multiLvlStrCache'].forEach(tag => {
+      Array.from(doc.getElementsByTagNameNS(C_NS, tag)).forEach(container => {
+        Array.from(container.getElementsByTagNameNS(C_NS, 'v')).forEach(v => {
+          if (v.textContent) addUnit(v.textContent, (translated) => { v.textContent = translated; });
+        });
+      });
+    });
+  }
+
+  console.log(`📊 Charts: ${chartPaths.length}, labels refreshed from cells: ${resolvedCount}, labels to translate: ${units.length}`);
+
+  const totalBatches = Math.ceil(units.length / BATCH_SIZE);
+  const chartContext = `${context ? context + '\n' : ''}These are chart titles, axis titles, series names and category labels. Keep them short.`;
+
+  for (let i = 0; i < units.length; i += BATCH_SIZE) {
+    const batch = units.slice(i, i + BATCH_SIZE);
+    onProgress(`Translating chart labels (batch ${Math.floor(i / BATCH_SIZE) + 1}/${totalBatches})...`, 95);
+    const translated = await translateBatchStrings(batch.map(u => u.source), targetLang, chartContext, glossary, sourceLang, blacklist);
+    batch.forEach((unit, idx) => {
+      if (translated[idx]) unit.apply(translated[idx]);
+    });
+  }
+
+  const serializer = new XMLSerializer();
+  docs.forEach((doc, path) => zip.file(path, serializer.serializeToString(doc)));
+  return zip.generateAsync({ type: 'arraybuffer' });
+};
@@ -0,0 +1,230 @@
+import JSZip from 'jszip';
+import { translateBatchStrings, detectLanguage } from './geminiService';
+import { readRelationships } from './opcPackage';
+import { SupportedLanguage, GlossaryItem, BlacklistItem, FormulaLiteralChange } from '../types';
+
+/**
+ * Excel References - keep a workbook consistent after its sheets were renamed.
+ *
+ * Cell formulas, conditional formatting, data validation, defined names, internal
+ * hyperlinks, chart series and pivot sources all address other sheets by name
+ * ('Old Name'!A1). Neither ExcelJS nor xlsx-populate rewrites them on rename, so this
+ * ZIP pass does. Optionally it also translates string literals inside cell formulas
+ * (=IF(A1="完了",...)), reusing the cell translations so comparisons keep matching.
+ */
+
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const C_NS = 'http://schemas.openxmlformats.org/drawingml/2006/chart';
+const XM_NS = 'http://schemas.microsoft.com/office/excel/2006/main';
+
+const BATCH_SIZE = 40;
+
+// Formula elements besides <c><f>: conditional formatting and data validation rules
+const RULE_FORMULA_TAGS = ['formula', 'formula1', 'formula2'];
+
+// Characters that end an unquoted sheet name
+const NAME_CHARS = `[^\\s'"!(),;=+\\-*/^&<>{}%:\\[\\]]+`;
+
+// String literal | 'Quoted Sheet'! | [external workbook or table column] | Sheet! / Sheet1:Sheet3!
+const FORMULA_TOKEN = new RegExp(`"((?:[^"]|"")*)"|'((?:[^']|'')+)'!|(\\[[^\\]]*\\])|(${NAME_CHARS}(?::${NAME_CHARS})?)!`, 'g');
+
+/**
+ * Sheet name as it must appear before "!" in a formula
+ */
+export const quoteSheetName = (name: string): string =>
+  /^[A-Za-z_][A-Za-z0-9_.]*$/.test(name) && !/^[A-Za-z]{1,3}\d+$/.test(name) && !/^[Rr]\d*[Cc]\d*$/.test(name)
+    ? name
+    : `'${name.replace(/'/g, "''")}'`;
+
+/**
+ * Rewrite sheet references in a formula (or range address) to renamed sheets.
+ * String literals and external workbook references ([1]Sheet1!A1) are left alone.
+ * `onLiteral` may return a replacement for the content of a string literal.
+ */
+export const renameSheetReferences = (
+  formula: string,
+  renames: Map<string, string>,
+  onLiteral?: (literal: string) => string | undefined
+): string => {
+  let bracketEnd = -1;
+
+  return formula.replace(FORMULA_TOKEN, (match, literal, quoted, bracket, unquoted, offset: number) => {
+    if (literal !== undefined) {
+      const replacement = onLiteral?.(literal.replace(/""/g, '"'));
+      return replacement !== undefined ? `"${replacement.replace(/"/g, '""')}"` : match;
+    }
+    if (bracket !== undefined) {
+      bracketEnd = offset + match.length;
+      return match;
+    }
+
+    let name: string = quoted !== undefined ? quoted.replace(/''/g, "'") : unquoted;
+    if (offset === bracketEnd || name.startsWith('[')) return match; // Sheet of another workbook
+
+    // Sheet1!A1:Sheet1!B5 - the part before ':' is the end of a range, not a sheet
+    let prefix = '';
+    const rangeEnd = quoted === undefined ? name.match(/^(\$?[A-Za-z]{1,3}\$?\d+:)(.+)$/) : null;
+    if (rangeEnd) {
+      prefix = rangeEnd[1];
+      name = rangeEnd[2];
+    }
+
+    // 3D references span two sheets: Sheet1:Sheet3!A1
+    const parts = renames.has(name) ? [name] : name.split(':');
+    if (!parts.some(part => renames.has(part))) return match;
+    const renamed = parts.map(part => renames.get(part) ?? part);
+
+    return prefix + (renamed.length === 1
+      ? `${quoteSheetName(renamed[0])}!`
+      : `'${renamed.map(part => part.replace(/'/g, "''")).join(':')}'!`);
+  });
+};
+
+/**
+ * Rewrite every sheet reference in the workbook to the renamed sheets, and optionally
+ * translate string literals in the cell formulas of the selected sheets.
+ * `knownTranslations` maps original cell text to its translation.
+ */
+export const updateWorkbookReferences = async (
+  buffer: ArrayBuffer | Uint8Array,
+  sheetRenames: Map<string, string>,
+  sheetPositions: number[],
+  translateLiterals: boolean,
+  knownTranslations: Map<string, string>,
+  targetLang: SupportedLanguage,
+  context: string,
+  glossary: GlossaryItem[],
+  onProgress: (msg: string, percent: number) => void,
+  skipAlreadyTranslated: boolean = true,
+  sourceLang: string = 'auto',
+  blacklist: BlacklistItem[] = []
+): Promise<{ buffer: ArrayBuffer, changes: FormulaLiteralChange[] }> => {
+  const zip = await JSZip.loadAsync(buffer);
+  const serializer = new XMLSerializer();
+  const targetLangCode = targetLang.toLowerCase().substring(0, 2);
+  const changes: FormulaLiteralChange[] = [];
+
+  const workbookXml = await zip.file('xl/workbook.xml')?.async('string');
+  if (!workbookXml) return { buffer: await zip.generateAsync({ type: 'arraybuffer' }), changes };
+  const workbookDoc = new DOMParser().parseFromString(workbookXml, 'application/xml');
+  const workbookRels = await readRelationships(zip, 'xl/workbook.xml');
+
+  const sheets = Array.from(workbookDoc.getElementsByTagNameNS(MAIN_NS, 'sheet')).map((sheet, position) => ({
+    name: sheet.getAttribute('name') || '',
+    path: workbookRels.get(sheet.getAttributeNS(R_NS, 'id') || '') || '',
+    selected: sheetPositions.includes(position)
+  })).filter(sheet => sheet.path && zip.file(sheet.path));
+
+  // 1. Defined names (print areas, named ranges)
+  Array.from(workbookDoc.getElementsByTagNameNS(MAIN_NS, 'definedName')).forEach(definedName => {
+    definedName.textContent = renameSheetReferences(definedName.textContent || '', sheetRenames);
+  });
+
+  // 2. Worksheets: formulas, rule formulas and internal hyperlinks
+  interface LiteralUsage {
+    sheet: string;
+    cell: string;
+    formula: Element;
+  }
+  const literalUsages = new Map<string, LiteralUsage[]>();
+  const sheetDocs = new Map<string, Document>();
+
+  for (const sheet of sheets) {
+    const xml = await zip.file(sheet.path)?.async('string');
+    if (!xml) continue;
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    sheetDocs.set(sheet.path, doc);
+
+    Array.from(doc.getElementsByTagNameNS(MAIN_NS, 'f')).forEach(f => {
+      const cell = (f.parentNode as Element | null)?.getAttribute('r') || '';
+      f.textContent = renameSheetReferences(f.textContent || '', sheetRenames, (literal) => {
+        if (!translateLiterals || !sheet.selected || !/\p{L}/u.test(literal)) return undefined;
+        if (skipAlreadyTranslated && detectLanguage(literal) === targetLangCode) return undefined;
+        literalUsages.set(literal, [...(literalUsages.get(literal) || []), { sheet: sheet.name, cell, formula: f }]);
+        return undefined;
+      });
+    });
+
+    [...RULE_FORMULA_TAGS.flatMap(tag => Array.from(doc.getElementsByTagNameNS(MAIN_NS, tag))),
+     ...Array.from(doc.getElementsByTagNameNS(XM_NS, 'f'))].forEach(formula => {
+      formula.textContent = renameSheetReferences(formula.textContent || '', sheetRenames);
+    });
+
+    Array.from(doc.getElementsByTagNameNS(MAIN_NS, 'hyperlink')).forEach(hyperlink => {
+      const location = hyperlink.getAttribute('location');
+      if (location) hyperlink.setAttribute('location', renameSheetReferences(location, sheetRenames));
+    });
+  }
+
+  // 3. String literals: reuse cell translations, translate the rest
+  if (literalUsages.size > 0) {
+    const literalTranslations = new Map<string, string>();
+    const pending: string[] = [];
+    literalUsages.forEach((_, literal) => {
+      const known = knownTranslations.get(literal);
+      if (known) literalTranslations.set(literal, known);
+      else pending.push(literal);
+    });
+
+    for (let i = 0; i < pending.length; i += BATCH_SIZE) {
+      const batch = pending.slice(i, i + BATCH_SIZE);
+      onProgress(`Translating ${pending.length} formula strings...`, 96);
+      const translated = await translateBatchStrings(batch, targetLang, context, glossary, sourceLang, blacklist);
+      batch.forEach((literal, idx) => {
+        if (translated[idx]) literalTranslations.set(literal, translated[idx]);
+      });
+    }
+
+    const rewritten = new Set<Element>();
+    literalUsages.forEach((usages, literal) => {
+      const translated = literalTranslations.get(literal);
+      if (!translated || translated === literal) return;
+      usages.forEach(usage => {
+        changes.push({ sheet: usage.sheet, cell: usage.cell, original: literal, translated });
+        rewritten.add(usage.formula);
+      });
+    });
+
+    rewritten.forEach(formula => {
+      formula.textContent = renameSheetReferences(formula.textContent || '', new Map(), (literal) => literalTranslations.get(literal));
+    });
+
+    // Cached results of the changed formulas are stale: let Excel recalculate on open
+    if (rewritten.size > 0) {
+      let calcPr = workbookDoc.getElementsByTagNameNS(MAIN_NS, 'calcPr')[0];
+      if (!calcPr) {
+        calcPr = workbookDoc.createElementNS(MAIN_NS, 'calcPr');
+        const anchor = Array.from(workbookDoc.documentElement.childNodes)
+          .find(n => n.nodeType === 1 && ['oleSize', 'customWorkbookViews', 'pivotCaches', 'smartTagPr', 'smartTagTypes', 'webPublishing', 'fileRecoveryPr', 'webPublishObjects', 'extLst'].includes((n as Element).localName));
+        workbookDoc.documentElement.insertBefore(calcPr, anchor || null);
+      }
+      calcPr.setAttribute('fullCalcOnLoad', '1');
+    }
+  }
+
+  sheetDocs.forEach((doc, path) => zip.file(path, serializer.serializeToString(doc)));
+  zip.file('xl/workbook.xml', serializer.serializeToString(workbookDoc));
+
+  // 4. Charts and pivot caches outside the worksheets
+  if (sheetRenames.size > 0) {
+    for (const path of Object.keys(zip.files).filter(p => /^xl\/charts\/chart\d+\.xml$/.test(p))) {
+      const doc = new DOMParser().parseFromString(await zip.file(path)!.async('string'), 'application/xml');
+      Array.from(doc.getElementsByTagNameNS(C_NS, 'f')).forEach(f => {
+        f.textContent = renameSheetReferences(f.textContent || '', sheetRenames);
+      });
+      zip.file(path, serializer.serializeToString(doc));
+    }
+
+    for (const path of Object.keys(zip.files).filter(p => /^xl\/pivotCache\/pivotCacheDefinition\d+\.xml$/.test(p))) {
+      const doc = new DOMParser().parseFromString(await zip.file(path)!.async('string'), 'application/xml');
+      Array.from(doc.getElementsByTagNameNS(MAIN_NS, 'worksheetSource')).forEach(source => {
+        const renamed = sheetRenames.get(source.getAttribute('sheet') || '');
+        if (renamed) source.setAttribute('sheet', renamed);
+      });
+      zip.file(path, serializer.serializeToString(doc));
+    }
+  }
+
+  return { buffer: await zip.generateAsync({ type: 'arraybuffer' }), changes };
+};
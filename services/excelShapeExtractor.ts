@@ -1,19 +1,29 @@
 import JSZip from 'jszip';
+import { encodeRunSegments, decodeRunSegments } from './runSegments';
 
-interface ShapeText {
+const A_NS = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+
+export interface ShapeText {
+  key: string; // drawing path + paragraph position, e.g., "xl/drawings/drawing1.xml#3"
   drawingPath: string; // e.g., "xl/drawings/drawing1.xml"
-  shapeIndex: number;
-  originalText: string;
+  paragraphIndex: number;
+  originalText: string; // run texts joined with <rN> tags (see runSegments)
 }
 
 /**
- * Check if Excel file contains any shapes/drawings (fast detection)
- * Returns true if file has shapes, false otherwise
+ * Check if Excel file contains any shapes/drawings or charts (fast detection)
+ * Returns true if file needs the xlsx-populate processor, false otherwise
  */
 export const hasShapes = async (arrayBuffer: ArrayBuffer): Promise<boolean> => {
   try {
     const zip = await JSZip.loadAsync(arrayBuffer);
     
+    // ExcelJS drops charts on write, so chart workbooks always take the ZIP path
+    if (Object.keys(zip.files).some(path => /^xl\/charts\/chart\d+\.xml$/.test(path))) {
+      console.log('📊 Charts detected - using xlsx-populate + ZIP processor');
+      return true;
+    }
+    
     // Check if xl/drawings/ folder exists
     const drawingFiles = Object.keys(zip.files).filter(path => 
       path.startsWith('xl/drawings/drawing') && path.endsWith('.xml')
@@ -27,7 +37,7 @@ export const hasShapes = async (arrayBuffer: ArrayBuffer): Promise<boolean> => {
     // Check if any drawing file contains actual text
     for (const drawingPath of drawingFiles) {
       const xmlContent = await zip.file(drawingPath)?.async('text');
-      if (xmlContent && xmlContent.includes('<a:t>')) {
+      if (xmlContent && /<a:t[\s>]/.test(xmlContent)) {
         console.log('🎨 Shapes with text detected - using xlsx-populate + ZIP processor');
         return true;
       }
@@ -42,40 +52,52 @@ export const hasShapes = async (arrayBuffer: ArrayBuffer): Promise<boolean> => {
 };
 
 /**
- * Extract all shape texts from Excel XLSX file (which is a ZIP container)
+ * Paragraphs of a drawing in document order, each with the text nodes of its runs.
+ * Paragraph positions are the stable key between extraction and replacement.
+ */
+const getDrawingParagraphs = (doc: Document): Element[][] =>
+  Array.from(doc.getElementsByTagNameNS(A_NS, 'p')).map(paragraph =>
+    Array.from(paragraph.childNodes)
+      .filter((n): n is Element => n.nodeType === 1 && (n as Element).namespaceURI === A_NS && (n as Element).localName === 'r')
+      .map(run => run.getElementsByTagNameNS(A_NS, 't')[0])
+      .filter((t): t is Element => !!t)
+  );
+
+const getDrawingFiles = (zip: JSZip): string[] =>
+  Object.keys(zip.files).filter(path => /^xl\/drawings\/drawing\d+\.xml$/.test(path));
+
+/**
+ * Extract all shape paragraphs from Excel XLSX file (which is a ZIP container)
  */
 export const extractShapeTexts = async (arrayBuffer: ArrayBuffer): Promise<ShapeText[]> => {
   const zip = await JSZip.loadAsync(arrayBuffer);
   const shapeTexts: ShapeText[] = [];
   
   // Find all drawing XML files in the ZIP
-  const drawingFiles = Object.keys(zip.files).filter(path => 
-    path.startsWith('xl/drawings/drawing') && path.endsWith('.xml')
-  );
+  const drawingFiles = getDrawingFiles(zip);
   
   console.log(`🔍 Found ${drawingFiles.length} drawing files in Excel`);
   
   for (const drawingPath of drawingFiles) {
-    const xmlContent = await zip.file(drawingPath)?.async('text');
+    const xmlContent = await zip.file(drawingPath)?.async('string');
     if (!xmlContent) continue;
     
-    // Parse XML to find text elements
-    // Shapes contain text in <a:t> tags (DrawingML text runs)
-    const textMatches = xmlContent.matchAll(/<a:t>([^<]+)<\/a:t>/g);
+    // Shapes contain text in <a:p> paragraphs split into <a:r><a:t> runs (DrawingML)
+    const doc = new DOMParser().parseFromString(xmlContent, 'application/xml');
     
-    let shapeIndex = 0;
-    for (const match of textMatches) {
-      const text = match[1];
-      if (text && text.trim().length > 0) {
-        shapeTexts.push({
-          drawingPath,
-          shapeIndex,
-          originalText: text.trim()
-        });
-        console.log(`  Shape ${shapeIndex} in ${drawingPath}: "${text.trim().substring(0, 50)}..."`);
-        shapeIndex++;
-      }
-    }
+    getDrawingParagraphs(doc).forEach((runs, paragraphIndex) => {
+      const runTexts = runs.map(t => t.textContent || '');
+      if (runTexts.join('').trim().length === 0) return;
+      
+      const key = `${drawingPath}#${paragraphIndex}`;
+      shapeTexts.push({
+        key,
+        drawingPath,
+        paragraphIndex,
+        originalText: encodeRunSegments(runTexts)
+      });
+      console.log(`  Paragraph ${paragraphIndex} in ${drawingPath}: "${runTexts.join('').substring(0, 50)}..."`);
+    });
   }
   
   console.log(`📊 Total shape texts extracted: ${shapeTexts.length}`);
@@ -87,40 +109,37 @@ export const extractShapeTexts = async (arrayBuffer: ArrayBuffer): Promise<Shape
  */
 export const replaceShapeTexts = async (
   arrayBuffer: ArrayBuffer,
-  translations: Map<string, string> // key: originalText, value: translatedText
+  translations: Map<string, string> // key: ShapeText.key, value: translated run segments
 ): Promise<ArrayBuffer> => {
   const zip = await JSZip.loadAsync(arrayBuffer);
-  
-  // Find all drawing XML files
-  const drawingFiles = Object.keys(zip.files).filter(path => 
-    path.startsWith('xl/drawings/drawing') && path.endsWith('.xml')
-  );
+  const serializer = new XMLSerializer();
   
   let replacedCount = 0;
   
-  for (const drawingPath of drawingFiles) {
-    let xmlContent = await zip.file(drawingPath)?.async('text');
+  for (const drawingPath of getDrawingFiles(zip)) {
+    const xmlContent = await zip.file(drawingPath)?.async('string');
     if (!xmlContent) continue;
     
-    // Replace all <a:t> text nodes with translated versions
-    xmlContent = xmlContent.replace(/<a:t>([^<]+)<\/a:t>/g, (match, originalText) => {
-      const trimmed = originalText.trim();
-      const translated = translations.get(trimmed);
-      
-      if (translated) {
-        console.log(`✓ Replacing shape text: "${trimmed}" → "${translated}"`);
-        replacedCount++;
-        return `<a:t>${translated}</a:t>`;
-      }
+    const doc = new DOMParser().parseFromString(xmlContent, 'application/xml');
+    let changed = false;
+    
+    getDrawingParagraphs(doc).forEach((runs, paragraphIndex) => {
+      const translated = translations.get(`${drawingPath}#${paragraphIndex}`);
+      if (!translated || runs.length === 0) return;
       
-      return match; // Keep original if no translation
+      // textContent is escaped by the serializer, so model output cannot break the XML
+      decodeRunSegments(translated, runs.length).forEach((text, idx) => {
+        runs[idx].textContent = text;
+      });
+      replacedCount++;
+      changed = true;
     });
     
     // Write modified XML back to ZIP
-    zip.file(drawingPath, xmlContent);
+    if (changed) zip.file(drawingPath, serializer.serializeToString(doc));
   }
   
-  console.log(`✅ Replaced ${replacedCount} shape texts in Excel file`);
+  console.log(`✅ Replaced ${replacedCount} shape paragraphs in Excel file`);
   
   // Generate new XLSX buffer
   return await zip.generateAsync({ type: 'arraybuffer' });
@@ -1,12 +1,25 @@
 
 import ExcelJS from 'exceljs';
-import { translateText, translateBatchStrings, extractTextFromImage, extractTextFromBase64, detectLanguage } from './geminiService';
-import { SupportedLanguage, GlossaryItem, BlacklistItem } from '../types';
-import { processPptx } from './pptxProcessor';
+import { translateText, translateBatchStrings, extractTextFromImage, extractTextFromBase64, translateImageContent, detectLanguage, getLanguageCode } from './geminiService';
+import { SupportedLanguage, GlossaryItem, BlacklistItem, FormulaLiteralChange } from '../types';
+import { processPptx, applyPptxImageReplacements } from './pptxProcessor';
+import { getPptxSlides, getPptxImages, detectPptxImageText } from './pptxSlides';
+import { processDocx } from './docxProcessor';
+import { processPdf } from './pdfProcessor';
+import { processCsv, getCsvColumns } from './csvProcessor';
+import { processLegacyXls, isLegacyXls, getLegacyXlsSheetNames } from './xlsLegacyProcessor';
+import { processSubtitles } from './subtitleProcessor';
+import { processI18nResource } from './i18nProcessor';
+import { processHtml } from './htmlProcessor';
+import { processOdf } from './odfProcessor';
+import { processMarkdown } from './markdownProcessor';
 import { processExcelWithShapes } from './xlsxPopulateProcessor';
 import { hasShapes } from './excelShapeExtractor';
+import { translateWorkbookAnnotations } from './excelAnnotations';
+import { updateWorkbookReferences } from './excelReferences';
+import { ExcelBilingualMode, getBilingualSheetName, cloneWorksheet, getColumnModeBlocker, insertTranslationColumns, combineInline, appendNote } from './excelBilingual';
 
-export { processPptx, processExcelWithShapes, hasShapes };
+export { processMarkdown, processPptx, applyPptxImageReplacements, getPptxSlides, getPptxImages, detectPptxImageText, processDocx, processPdf, processCsv, getCsvColumns, processLegacyXls, isLegacyXls, processSubtitles, processI18nResource, processHtml, processOdf, processExcelWithShapes, hasShapes };
 
 // --- HELPERS ---
 
@@ -206,32 +219,13 @@ export const parseBlacklistFromExcel = async (
 
 export const getExcelSheetNames = async (file: File): Promise<string[]> => {
   const arrayBuffer = await file.arrayBuffer();
+  // ExcelJS only reads OOXML - legacy BIFF workbooks go through SheetJS
+  if (isLegacyXls(arrayBuffer)) return getLegacyXlsSheetNames(arrayBuffer);
   const workbook = new ExcelJS.Workbook();
   await workbook.xlsx.load(arrayBuffer);
   return workbook.worksheets.map(ws => ws.name);
 };
 
-export const processMarkdown = async (
-  fileContent: string,
-  targetLang: SupportedLanguage,
-  context: string,
-  glossary: GlossaryItem[],
-  onProgress: (msg: string, percent: number) => void
-): Promise<{ blob: Blob, translatedText: string }> => {
-  onProgress('Analyzing Markdown structure...', 10);
-  await new Promise(r => setTimeout(r, 100));
-
-  onProgress('Sending to Gemini for translation...', 30);
-  const translatedText = await translateText(fileContent, targetLang, context, glossary);
-  
-  onProgress('Reconstructing Markdown file...', 90);
-  await new Promise(r => setTimeout(r, 100));
-
-  onProgress('Done', 100);
-  const blob = new Blob([translatedText], { type: 'text/markdown' });
-  return { blob, translatedText };
-};
-
 export const processImage = async (
   file: File,
   targetLang: SupportedLanguage,
@@ -258,6 +252,58 @@ export const processImage = async (
   return { blob, translatedText };
 };
 
+/**
+ * Translate an image into an image (screenshots, UI mockups) with translateImageContent.
+ * The result is scaled back to the original dimensions and saved as PNG, or JPEG for JPEG input.
+ * With includeOcrText the translated text is also returned (as for processImage).
+ */
+export const processImageToImage = async (
+  file: File,
+  targetLang: SupportedLanguage,
+  context: string,
+  glossary: GlossaryItem[],
+  onProgress: (msg: string, percent: number) => void,
+  includeOcrText: boolean = false
+): Promise<{ blob: Blob, translatedText: string }> => {
+  onProgress('Uploading image for in-place translation...', 15);
+  const base64Data = arrayBufferToBase64(await file.arrayBuffer());
+  const translatedBase64 = await translateImageContent(base64Data, file.type || 'image/png', targetLang, context);
+  if (!translatedBase64) {
+    throw new Error('Image translation failed: the model did not return an image');
+  }
+
+  onProgress('Restoring original image dimensions...', 70);
+  const outputType = file.type === 'image/jpeg' ? 'image/jpeg' : 'image/png';
+  const original = await createImageBitmap(file);
+  const translatedBytes = Uint8Array.from(window.atob(translatedBase64), char => char.charCodeAt(0));
+  const translated = await createImageBitmap(new Blob([translatedBytes]));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = original.width;
+  canvas.height = original.height;
+  const canvasContext = canvas.getContext('2d');
+  if (!canvasContext) throw new Error('Canvas is not available in this browser');
+  canvasContext.drawImage(translated, 0, 0, original.width, original.height);
+  original.close();
+  translated.close();
+
+  const blob = await new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(result => result ? resolve(result) : reject(new Error('Failed to encode translated image')), outputType, 0.92);
+  });
+
+  let translatedText = '';
+  if (includeOcrText) {
+    onProgress('Extracting text for OCR output...', 80);
+    const extractedText = await extractTextFromImage(file);
+    if (!extractedText.includes('NO_TEXT_FOUND')) {
+      translatedText = await translateText(extractedText, targetLang, context, glossary);
+    }
+  }
+
+  onProgress('Done', 100);
+  return { blob, translatedText };
+};
+
 export const processExcel = async (
   arrayBuffer: ArrayBuffer,
   targetLang: SupportedLanguage,
@@ -267,11 +313,44 @@ export const processExcel = async (
   onProgress: (msg: string, percent: number) => void,
   skipAlreadyTranslated: boolean = true,
   sourceLang: string = 'auto', // 'auto' or language code
-  blacklist: BlacklistItem[] = [] // NEW: Blacklist for sensitive data protection
-): Promise<Blob> => {
+  blacklist: BlacklistItem[] = [], // NEW: Blacklist for sensitive data protection
+  translateFormulaStrings: boolean = false,
+  bilingualMode: ExcelBilingualMode = 'replace'
+): Promise<{ blob: Blob, formulaChanges: FormulaLiteralChange[], warnings: string[] }> => {
   onProgress('Loading Excel file...', 5);
   const workbook = new ExcelJS.Workbook();
   await workbook.xlsx.load(arrayBuffer);
+  const warnings: string[] = [];
+
+  // Sheet receiving the translation: the sheet itself, or its clone in bilingual "sheet" mode
+  const outputSheets = new Map<string, ExcelJS.Worksheet>();
+  selectedSheets.forEach(name => {
+    const worksheet = workbook.getWorksheet(name);
+    if (!worksheet) return;
+    outputSheets.set(name, bilingualMode === 'sheet'
+      ? cloneWorksheet(workbook, worksheet, getBilingualSheetName(workbook, name, getLanguageCode(targetLang)))
+      : worksheet);
+  });
+
+  // Column mode only works where nothing else addresses the shifted columns; elsewhere it falls back to inline
+  const inlineColumnSheets = new Set<string>();
+  if (bilingualMode === 'column') {
+    outputSheets.forEach((worksheet, name) => {
+      const blocker = getColumnModeBlocker(workbook, worksheet);
+      if (!blocker) return;
+      inlineColumnSheets.add(name);
+      warnings.push(`Sheet "${name}": has ${blocker} that would not follow inserted columns; translations were added below the source text instead.`);
+    });
+  }
+
+  // Source text must stay untouched in column/note/inline modes, so only the
+  // replace and sheet modes translate comments, headers and formula strings
+  const translatesInPlace = bilingualMode === 'replace' || bilingualMode === 'sheet';
+
+  // Workbook-order positions of the output sheets (stable across sheet renaming)
+  const sheetPositions = Array.from(outputSheets.values())
+    .map(ws => workbook.worksheets.indexOf(ws))
+    .filter(pos => pos >= 0);
 
   // 1. Collect all translatable content (Text) with per-sheet tracking
   onProgress('Analyzing cells...', 10);
@@ -327,6 +406,12 @@ export const processExcel = async (
 
   const totalItems = allItems.length;
   
+  // Plain cell text → translation, reused for matching string literals in formulas
+  const cellTranslations = new Map<string, string>();
+  
+  // Bilingual "column" mode: sheet → source column → row → translated value
+  const columnTranslations = new Map<string, Map<number, Map<number, ExcelJS.CellValue>>>();
+  
   // 2. Translate Text in batches
   if (totalItems > 0) {
     const startPercent = 15;
@@ -357,13 +442,30 @@ export const processExcel = async (
       batchItems.forEach((item, idx) => {
         const translatedText = translatedTexts[idx];
         if (translatedText) {
-          const worksheet = workbook.getWorksheet(item.sheetName);
+          const worksheet = outputSheets.get(item.sheetName);
           if (worksheet) {
             const cell = worksheet.getCell(item.cellAddress);
-            if (hasFormattingTags(translatedText)) {
-              cell.value = taggedStringToRichText(translatedText);
+            const translatedValue = hasFormattingTags(translatedText) ? taggedStringToRichText(translatedText) : translatedText;
+            if (!hasFormattingTags(translatedText)) cellTranslations.set(item.val, translatedText);
+
+            // A translation column would land inside a merged area and stay hidden: use inline there
+            if (bilingualMode === 'column' && !cell.isMerged && !inlineColumnSheets.has(item.sheetName)) {
+              const sheetColumns = columnTranslations.get(item.sheetName) || new Map<number, Map<number, ExcelJS.CellValue>>();
+              const column = sheetColumns.get(+cell.col) || new Map<number, ExcelJS.CellValue>();
+              column.set(+cell.row, translatedValue);
+              sheetColumns.set(+cell.col, column);
+              columnTranslations.set(item.sheetName, sheetColumns);
+              return;
+            }
+            if (bilingualMode === 'note') {
+              appendNote(cell, translatedText.replace(/<\/?(?:b|i|u|s)>/g, ''));
+              return;
+            }
+            if (bilingualMode === 'inline' || bilingualMode === 'column') {
+              cell.value = combineInline(cell.value, translatedValue);
+              cell.alignment = { ...cell.alignment, wrapText: true };
             } else {
-              cell.value = translatedText;
+              cell.value = translatedValue;
             }
             // Visual cue for translated cells
             if (!cell.border) {
@@ -384,7 +486,7 @@ export const processExcel = async (
   onProgress('Scanning for images in worksheets...', 80);
   
   for (const sheetName of selectedSheets) {
-    const worksheet = workbook.getWorksheet(sheetName);
+    const worksheet = outputSheets.get(sheetName);
     if (!worksheet) continue;
 
     // ExcelJS exposes images via getImages()
@@ -426,6 +528,12 @@ export const processExcel = async (
                     
                     const cell = worksheet.getCell(row, col);
                     
+                    // Bilingual modes keep the source cell: the image text goes into its note
+                    if (!translatesInPlace) {
+                        appendNote(cell, `--- [IMAGE TRANS] ---\n${translatedImgText}`);
+                        continue;
+                    }
+                    
                     // Append text to cell
                     const existingText = cell.text || '';
                     const newContent = `${existingText ? existingText + '\n\n' : ''}--- [IMAGE TRANS] ---\n${translatedImgText}\n----------------------`;
@@ -444,8 +552,15 @@ export const processExcel = async (
     }
   }
 
-  // 4. Translate Sheet Names
-  if (selectedSheets.length > 0) {
+  // Bilingual "column" mode: insert the translation columns
+  columnTranslations.forEach((columns, sheetName) => {
+    const worksheet = outputSheets.get(sheetName);
+    if (worksheet) insertTranslationColumns(worksheet, columns);
+  });
+
+  // 4. Translate Sheet Names (old → new, so formulas can follow); bilingual output keeps source names
+  const sheetRenames = new Map<string, string>();
+  if (selectedSheets.length > 0 && bilingualMode === 'replace') {
     onProgress('Translating sheet names...', 95);
     try {
       // Smart mode: Filter out sheets already in target language
@@ -485,6 +600,7 @@ export const processExcel = async (
               const ws = workbook.getWorksheet(oldName);
               if (ws) {
                 ws.name = cleanName;
+                sheetRenames.set(oldName, cleanName);
                 console.log(`Renamed sheet: "${oldName}" → "${cleanName}"`);
               }
             }
@@ -500,9 +616,36 @@ export const processExcel = async (
     }
   }
 
+  let buffer = await workbook.xlsx.writeBuffer() as ArrayBuffer;
+
+  // 5. Notes, dropdown lists and headers/footers are not cell values: translate them in the ZIP
+  if (translatesInPlace) {
+    onProgress('Translating comments, dropdowns and headers...', 96);
+    try {
+      const annotated = await translateWorkbookAnnotations(buffer, sheetPositions, targetLang, context, glossary, onProgress, skipAlreadyTranslated, sourceLang, blacklist);
+      buffer = annotated.buffer;
+      warnings.push(...annotated.warnings);
+    } catch (e) {
+      console.error("Comment/dropdown/header translation failed", e);
+    }
+  }
+
+  // 6. Point formulas, defined names and hyperlinks at the renamed sheets
+  let formulaChanges: FormulaLiteralChange[] = [];
+  const translateLiterals = translateFormulaStrings && translatesInPlace;
+  if (sheetRenames.size > 0 || translateLiterals) {
+    onProgress('Updating sheet references in formulas...', 97);
+    try {
+      const updated = await updateWorkbookReferences(buffer, sheetRenames, sheetPositions, translateLiterals, cellTranslations, targetLang, context, glossary, onProgress, skipAlreadyTranslated, sourceLang, blacklist);
+      buffer = updated.buffer;
+      formulaChanges = updated.changes;
+    } catch (e) {
+      console.error("Sheet reference update failed", e);
+    }
+  }
+
   onProgress('Finalizing file...', 98);
-  const buffer = await workbook.xlsx.writeBuffer();
-  
   onProgress('Done', 100);
-  return new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+  const blob = new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+  return { blob, formulaChanges, warnings };
 };
@@ -63,21 +63,83 @@ const buildSystemInstruction = (targetLang: SupportedLanguage, context: string,
 /**
  * Convert SupportedLanguage enum to language code
  */
-const getLanguageCode = (lang: SupportedLanguage): string => {
+export const getLanguageCode = (lang: SupportedLanguage): string => {
   const map: Record<string, string> = {
     'English': 'en',
     'Vietnamese': 'vi',
     'Japanese': 'ja',
     'Korean': 'ko',
+    'Chinese': 'zh',
     'Chinese (Simplified)': 'zh',
     'Chinese (Traditional)': 'zh',
     'Spanish': 'es',
     'French': 'fr',
-    'German': 'de'
+    'German': 'de',
+    'Thai': 'th'
   };
   return map[lang] || 'en';
 };
 
+// Interpolation syntax used by resource files (ICU MessageFormat, i18next, printf, Python)
+const ICU_ARGUMENT_START = /\{\s*[\w.]+\s*,\s*(?:plural|selectordinal|select)\s*,\s*(?:offset:\d+\s*)?/y;
+const ICU_CASE_START = /\s*(?:=\d+|[\w-]+)\s*\{/y;
+const ICU_CLOSE = /\s*\}/y;
+const INTERPOLATION_VARIABLE = /\{\{[^{}]+\}\}|\{\s*[\w.-]+(?:\s*,\s*\w+(?:\s*,\s*[^{}]*)?)?\s*\}|%(?:\d+\$)?[-+0#]*\d*(?:\.\d+)?[sdifuxXeEgGc@]|%\(\w+\)[sdf]|\$t\([^)]*\)|<\/?\d+\/?>/y;
+
+/**
+ * Protect ICU plural/select structure and interpolation variables ({name}, {{count}}, %s, %1$d)
+ * while leaving the translatable text inside plural/select cases exposed.
+ */
+const protectMessageFormat = (text: string, protect: (match: string) => string): string => {
+  if (!/[{%$<]/.test(text)) return text;
+
+  const matchAt = (pattern: RegExp, index: number): string | null => {
+    pattern.lastIndex = index;
+    const match = pattern.exec(text);
+    return match ? match[0] : null;
+  };
+
+  const stack: Array<'argument' | 'case'> = [];
+  let result = '';
+  let i = 0;
+
+  while (i < text.length) {
+    const top = stack[stack.length - 1];
+    let match: string | null;
+
+    // Inside {count, plural, ...}: only case selectors or the closing brace are expected
+    if (top === 'argument') {
+      if ((match = matchAt(ICU_CASE_START, i))) {
+        stack.push('case');
+      } else if ((match = matchAt(ICU_CLOSE, i))) {
+        stack.pop();
+      } else {
+        result += text[i++];
+        continue;
+      }
+      result += protect(match);
+      i += match.length;
+      continue;
+    }
+
+    if ((match = matchAt(ICU_ARGUMENT_START, i))) {
+      stack.push('argument');
+    } else if (!(match = matchAt(INTERPOLATION_VARIABLE, i))) {
+      if (top === 'case' && (text[i] === '#' || text[i] === '}')) {
+        match = text[i];
+        if (match === '}') stack.pop();
+      } else {
+        result += text[i++];
+        continue;
+      }
+    }
+    result += protect(match);
+    i += match.length;
+  }
+
+  return result;
+};
+
 /**
  * Extract placeholders for content that doesn't need translation
  * Smart detection based on source → target language pair
@@ -97,6 +159,12 @@ const extractPlaceholders = (
   let result = text;
 
   // Always preserve these regardless of language:
+  // 0. ICU plural/select structure and interpolation variables
+  result = protectMessageFormat(result, (match) => {
+    placeholders.push(match);
+    return `__P${placeholderIndex++}__`;
+  });
+
   // 1. URLs
   result = result.replace(/(https?:\/\/[^\s]+|ftp:\/\/[^\s]+)/gi, (match) => {
     placeholders.push(match);
@@ -287,7 +355,8 @@ export const translateImageContent = async (
   }
 };
 
-export const extractTextFromBase64 = async (base64Data: string, mimeType: string = 'image/png'): Promise<string> => {
+// throwOnError: let API failures (quota, network, key) through instead of returning ""
+export const extractTextFromBase64 = async (base64Data: string, mimeType: string = 'image/png', throwOnError: boolean = false): Promise<string> => {
   const prompt = `OCR expert: Extract ALL text as Markdown. Preserve layout. Do not translate.`;
   try {
     const response = await getAI().models.generateContent({
@@ -303,7 +372,10 @@ export const extractTextFromBase64 = async (base64Data: string, mimeType: string
     }
     
     return response.text?.replace(/^```markdown\s*|```$/g, '') || '';
-  } catch { return ""; }
+  } catch (err) {
+    if (throwOnError) throw err;
+    return "";
+  }
 };
 
 export const extractTextFromImage = async (file: File): Promise<string> => {
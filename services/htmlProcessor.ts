@@ -0,0 +1,256 @@
+import { translateBatchStrings, detectLanguage, getLanguageCode } from './geminiService';
+import { SupportedLanguage, GlossaryItem, BlacklistItem } from '../types';
+
+// Never translated (content is code or not text)
+const SKIPPED_TAGS = new Set(['script', 'style', 'code', 'pre', 'kbd', 'samp', 'var', 'noscript', 'template', 'svg', 'math', 'textarea', 'iframe', 'object']);
+
+// Inline formatting kept inside a segment as <tN/> placeholders
+const INLINE_TAGS = new Set([
+  'a', 'abbr', 'b', 'bdi', 'bdo', 'button', 'cite', 'data', 'del', 'dfn', 'em', 'font', 'i', 'ins',
+  'label', 'mark', 'q', 's', 'small', 'span', 'strike', 'strong', 'sub', 'sup', 'time', 'tt', 'u'
+]);
+
+// Inline elements without translatable content: moved as a whole
+const ATOMIC_INLINE_TAGS = new Set(['br', 'wbr', 'img', 'input', 'select', 'code', 'kbd', 'samp', 'var', 'svg', 'math']);
+
+const TRANSLATABLE_ATTRIBUTES = ['alt', 'title', 'placeholder'];
+const SEGMENT_BATCH_SIZE = 40;
+
+interface HtmlSegmentToken {
+  kind: 'open' | 'close' | 'atomic';
+  node: Node;
+}
+
+interface HtmlUnit {
+  source: string;
+  apply: (translated: string) => void;
+}
+
+const hasLetters = (text: string): boolean => /\p{L}/u.test(text);
+
+const tagOf = (node: Node): string =>
+  node.nodeType === Node.ELEMENT_NODE ? (node as Element).localName.toLowerCase() : '';
+
+const isExcluded = (el: Element): boolean =>
+  SKIPPED_TAGS.has(tagOf(el)) || el.getAttribute('translate') === 'no' || el.classList.contains('notranslate');
+
+/**
+ * An element is inline when it is an inline tag and every element inside it is inline too
+ * (<a><div>...</div></a> is treated as a block container).
+ */
+const isInlineNode = (node: Node): boolean => {
+  if (node.nodeType === Node.TEXT_NODE) return true;
+  if (node.nodeType !== Node.ELEMENT_NODE) return false;
+  const tag = tagOf(node);
+  if (ATOMIC_INLINE_TAGS.has(tag)) return true;
+  if (!INLINE_TAGS.has(tag)) return false;
+  return Array.from(node.childNodes).every(child => child.nodeType === Node.COMMENT_NODE || isInlineNode(child));
+};
+
+/**
+ * Turn a run of sibling inline nodes into text with <tN/> placeholders for tags.
+ * Excluded and atomic elements become a single placeholder so their content is never sent.
+ */
+const maskInlineRun = (nodes: Node[]): { masked: string, tokens: HtmlSegmentToken[] } => {
+  const tokens: HtmlSegmentToken[] = [];
+  const token = (kind: HtmlSegmentToken['kind'], node: Node) => {
+    tokens.push({ kind, node });
+    return `<t${tokens.length - 1}/>`;
+  };
+
+  const walk = (node: Node): string => {
+    if (node.nodeType === Node.TEXT_NODE) return (node.nodeValue || '').replace(/\s+/g, ' ');
+    if (node.nodeType !== Node.ELEMENT_NODE) return '';
+    const el = node as Element;
+    if (ATOMIC_INLINE_TAGS.has(tagOf(el)) || isExcluded(el) || el.childNodes.length === 0) return token('atomic', el);
+    return token('open', el) + Array.from(el.childNodes).map(walk).join('') + token('close', el);
+  };
+
+  return { masked: nodes.map(walk).join(''), tokens };
+};
+
+/**
+ * Rebuild the DOM for a translated run. Inline elements are re-created from shallow
+ * clones of the originals, so attributes (href, class, translated title) are kept.
+ * Tags the model dropped or mis-nested degrade to plain text instead of breaking the page.
+ */
+const buildTranslatedRun = (doc: Document, translated: string, tokens: HtmlSegmentToken[]): Node[] => {
+  const root = doc.createDocumentFragment();
+  const stack: Array<{ parent: Node, tokenIndex: number }> = [{ parent: root, tokenIndex: -1 }];
+  const used = new Set<number>();
+  const current = () => stack[stack.length - 1].parent;
+
+  translated.split(/(<t\d+\/>)/).forEach(piece => {
+    const tokenMatch = piece.match(/^<t(\d+)\/>$/);
+    if (!tokenMatch) {
+      if (piece) current().appendChild(doc.createTextNode(piece));
+      return;
+    }
+
+    const index = parseInt(tokenMatch[1], 10);
+    const token = tokens[index];
+    if (!token || used.has(index)) return;
+    used.add(index);
+
+    if (token.kind === 'atomic') {
+      current().appendChild(token.node);
+    } else if (token.kind === 'open') {
+      const clone = token.node.cloneNode(false);
+      current().appendChild(clone);
+      stack.push({ parent: clone, tokenIndex: index });
+    } else {
+      // Close only the element it belongs to
+      const openIndex = tokens.findIndex(t => t.kind === 'open' && t.node === token.node);
+      if (stack.length > 1 && stack[stack.length - 1].tokenIndex === openIndex) stack.pop();
+    }
+  });
+
+  // Code spans, images and line breaks must never disappear
+  tokens.forEach((token, index) => {
+    if (token.kind === 'atomic' && !used.has(index)) root.appendChild(token.node);
+  });
+
+  return Array.from(root.childNodes);
+};
+
+/**
+ * Group the children of every block element into runs of inline content (one segment each)
+ */
+const collectSegmentUnits = (
+  doc: Document,
+  start: Element,
+  targetLangCode: string,
+  skipAlreadyTranslated: boolean
+): HtmlUnit[] => {
+  const units: HtmlUnit[] = [];
+
+  const addRun = (nodes: Node[]) => {
+    if (nodes.length === 0) return;
+    const { masked, tokens } = maskInlineRun(nodes);
+    const text = masked.trim();
+    const plainText = text.replace(/<t\d+\/>/g, '');
+    if (!hasLetters(plainText)) return;
+    if (skipAlreadyTranslated && detectLanguage(plainText) === targetLangCode) return;
+
+    // Keep surrounding whitespace (indentation between tags) as it was
+    const leading = masked.match(/^\s*/)?.[0] || '';
+    const trailing = masked.match(/\s*$/)?.[0] || '';
+
+    units.push({
+      source: text,
+      apply: (translated) => {
+        const anchor = nodes[nodes.length - 1].nextSibling;
+        const parent = nodes[0].parentNode;
+        if (!parent) return;
+        const rebuilt = buildTranslatedRun(doc, leading + translated.trim() + trailing, tokens);
+        nodes.forEach(node => node.parentNode === parent && parent.removeChild(node));
+        rebuilt.forEach(node => parent.insertBefore(node, anchor));
+      }
+    });
+  };
+
+  const visitBlock = (block: Element) => {
+    let run: Node[] = [];
+    Array.from(block.childNodes).forEach(child => {
+      if (child.nodeType === Node.ELEMENT_NODE && isExcluded(child as Element) && !isInlineNode(child)) {
+        addRun(run);
+        run = [];
+        return;
+      }
+      if (isInlineNode(child)) {
+        run.push(child);
+        return;
+      }
+      addRun(run);
+      run = [];
+      if (child.nodeType === Node.ELEMENT_NODE) visitBlock(child as Element);
+    });
+    addRun(run);
+  };
+
+  visitBlock(start);
+  return units;
+};
+
+/**
+ * alt / title / placeholder attributes outside excluded elements
+ */
+const collectAttributeUnits = (root: Element, targetLangCode: string, skipAlreadyTranslated: boolean): HtmlUnit[] => {
+  const units: HtmlUnit[] = [];
+  const selector = TRANSLATABLE_ATTRIBUTES.map(attr => `[${attr}]`).join(',');
+
+  root.querySelectorAll(selector).forEach(el => {
+    for (let ancestor: Element | null = el; ancestor; ancestor = ancestor.parentElement) {
+      if (isExcluded(ancestor)) return;
+    }
+    TRANSLATABLE_ATTRIBUTES.forEach(attr => {
+      const value = el.getAttribute(attr);
+      if (!value || !hasLetters(value)) return;
+      if (skipAlreadyTranslated && detectLanguage(value) === targetLangCode) return;
+      units.push({ source: value, apply: (translated) => el.setAttribute(attr, translated) });
+    });
+  });
+  return units;
+};
+
+/**
+ * Process HTML document (static manuals, Confluence exports): translate inline text per
+ * block with tags kept as placeholders, plus alt/title/placeholder attributes.
+ * script, style, pre/code and translate="no" elements are left untouched.
+ */
+export const processHtml = async (
+  file: File,
+  targetLang: SupportedLanguage,
+  context: string,
+  glossary: GlossaryItem[],
+  onProgress: (msg: string, percent: number) => void,
+  skipAlreadyTranslated: boolean = true,
+  sourceLang: string = 'auto',
+  blacklist: BlacklistItem[] = []
+): Promise<{ blob: Blob, translatedText: string }> => {
+  onProgress('Parsing HTML document...', 5);
+  const content = await file.text();
+  const doc = new DOMParser().parseFromString(content, 'text/html');
+  const isFullDocument = /<html[\s>]/i.test(content);
+  const targetLangCode = targetLang.toLowerCase().substring(0, 2);
+
+  const root = isFullDocument ? doc.documentElement : doc.body;
+
+  // Attributes first: segments re-create inline elements from clones of the originals
+  const units = [
+    ...collectAttributeUnits(root, targetLangCode, skipAlreadyTranslated),
+    ...collectSegmentUnits(doc, root, targetLangCode, skipAlreadyTranslated)
+  ];
+  onProgress(`Found ${units.length} text segments and attributes to translate...`, 10);
+
+  if (units.length > 0) {
+    const totalBatches = Math.ceil(units.length / SEGMENT_BATCH_SIZE);
+    const htmlContext = `${context ? context + '\n' : ''}These are text segments from one HTML page. Keep <tN/> tokens (inline tags) around the words they wrap.`;
+
+    for (let i = 0; i < units.length; i += SEGMENT_BATCH_SIZE) {
+      const batch = units.slice(i, i + SEGMENT_BATCH_SIZE);
+      const batchNumber = Math.floor(i / SEGMENT_BATCH_SIZE) + 1;
+      onProgress(`Translating segment batch ${batchNumber}/${totalBatches}...`, 10 + Math.floor((i / units.length) * 80));
+
+      const translated = await translateBatchStrings(batch.map(u => u.source), targetLang, htmlContext, glossary, sourceLang, blacklist);
+      batch.forEach((unit, idx) => {
+        if (translated[idx]) unit.apply(translated[idx]);
+      });
+    }
+  } else {
+    onProgress('No translatable text found...', 90);
+  }
+
+  onProgress('Rebuilding HTML...', 95);
+  let translatedText: string;
+  if (isFullDocument) {
+    if (doc.documentElement.hasAttribute('lang')) doc.documentElement.setAttribute('lang', getLanguageCode(targetLang));
+    const doctype = doc.doctype ? new XMLSerializer().serializeToString(doc.doctype) + '\n' : '';
+    translatedText = doctype + doc.documentElement.outerHTML;
+  } else {
+    translatedText = doc.body.innerHTML;
+  }
+
+  onProgress('Done', 100);
+  return { blob: new Blob([translatedText], { type: 'text/html' }), translatedText };
+};
@@ -0,0 +1,421 @@
+import { translateBatchStrings, detectLanguage, getLanguageCode } from './geminiService';
+import { SupportedLanguage, GlossaryItem, BlacklistItem } from '../types';
+
+export type I18nFormat = 'xliff' | 'po' | 'json' | 'arb';
+
+/**
+ * One translatable string: `source` is sent to the model, `apply` writes the result back
+ */
+interface I18nUnit {
+  source: string;
+  apply: (translated: string) => void;
+}
+
+const UNIT_BATCH_SIZE = 40;
+const XLIFF_TRANSLATED_STATE = 'translated';
+
+export const detectI18nFormat = (fileName: string): I18nFormat | null => {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith('.xlf') || lower.endsWith('.xliff')) return 'xliff';
+  if (lower.endsWith('.po') || lower.endsWith('.pot')) return 'po';
+  if (lower.endsWith('.arb')) return 'arb';
+  if (lower.endsWith('.json')) return 'json';
+  return null;
+};
+
+const hasLetters = (text: string): boolean => /\p{L}/u.test(text);
+
+// --- XLIFF (1.2 and 2.0) ---
+
+const escapeXmlText = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const childElements = (parent: Element, localName: string): Element[] =>
+  Array.from(parent.children).filter(el => el.localName === localName);
+
+const allElements = (doc: Document, localName: string): Element[] =>
+  Array.from(doc.getElementsByTagName('*')).filter(el => el.localName === localName);
+
+/**
+ * Replace inline elements (<g>, <x/>, <ph>, <pc>...) with <tN/> tokens so the
+ * model only sees text; the tags are written back verbatim after translation.
+ */
+const maskInlineMarkup = (element: Element): { masked: string, tags: string[] } => {
+  const tags: string[] = [];
+  const token = (tag: string) => {
+    tags.push(tag);
+    return `<t${tags.length - 1}/>`;
+  };
+
+  const walk = (node: Node): string => {
+    if (node.nodeType === Node.TEXT_NODE || node.nodeType === Node.CDATA_SECTION_NODE) return node.nodeValue || '';
+    if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+    const el = node as Element;
+    const attrs = Array.from(el.attributes)
+      .filter(attr => attr.name !== 'xmlns')
+      .map(attr => ` ${attr.name}="${escapeXmlText(attr.value).replace(/"/g, '&quot;')}"`)
+      .join('');
+    if (el.childNodes.length === 0) return token(`<${el.tagName}${attrs}/>`);
+    const open = token(`<${el.tagName}${attrs}>`);
+    const inner = Array.from(el.childNodes).map(walk).join('');
+    return open + inner + token(`</${el.tagName}>`);
+  };
+
+  return { masked: Array.from(element.childNodes).map(walk).join(''), tags };
+};
+
+/**
+ * Write translated text into the target element, restoring inline markup.
+ * If the model broke the tag structure, fall back to plain text.
+ */
+const writeInlineMarkup = (target: Element, translated: string, tags: string[]) => {
+  const fragment = translated
+    .split(/(<t\d+\/>)/)
+    .map(piece => {
+      const tokenMatch = piece.match(/^<t(\d+)\/>$/);
+      return tokenMatch ? (tags[parseInt(tokenMatch[1], 10)] ?? '') : escapeXmlText(piece);
+    })
+    .join('');
+
+  while (target.firstChild) target.removeChild(target.firstChild);
+
+  const namespace = target.namespaceURI ? ` xmlns="${target.namespaceURI}"` : '';
+  const wrapper = new DOMParser().parseFromString(`<wrapper${namespace}>${fragment}</wrapper>`, 'application/xml');
+  if (wrapper.getElementsByTagName('parsererror').length > 0) {
+    target.textContent = translated.replace(/<t\d+\/>/g, '');
+    return;
+  }
+  Array.from(wrapper.documentElement.childNodes).forEach(node => {
+    target.appendChild(target.ownerDocument.importNode(node, true));
+  });
+};
+
+/**
+ * Get the <target> next to <source>, creating it right after <source> when missing
+ */
+const getOrCreateTarget = (container: Element, source: Element): Element => {
+  const existing = childElements(container, 'target')[0];
+  if (existing) return existing;
+  const target = container.ownerDocument.createElementNS(source.namespaceURI, source.prefix ? `${source.prefix}:target` : 'target');
+  container.insertBefore(target, source.nextSibling);
+  return target;
+};
+
+const collectXliffUnits = (
+  doc: Document,
+  targetLang: SupportedLanguage,
+  skipAlreadyTranslated: boolean
+): I18nUnit[] => {
+  const root = doc.documentElement;
+  const isVersion2 = (root.getAttribute('version') || '').startsWith('2');
+  const languageCode = getLanguageCode(targetLang);
+  const targetLangCode = targetLang.toLowerCase().substring(0, 2);
+  const units: I18nUnit[] = [];
+
+  if (isVersion2) {
+    root.setAttribute('trgLang', languageCode);
+  } else {
+    allElements(doc, 'file').forEach(file => file.setAttribute('target-language', languageCode));
+  }
+
+  // 1.2: <trans-unit><source/><target state=""/></trans-unit>
+  // 2.0: <unit><segment state=""><source/><target/></segment></unit>
+  const containers = isVersion2 ? allElements(doc, 'segment') : allElements(doc, 'trans-unit');
+
+  containers.forEach(container => {
+    const translatable = isVersion2 ? container.parentElement : container;
+    if (translatable?.getAttribute('translate') === 'no') return;
+
+    const source = childElements(container, 'source')[0];
+    if (!source || !hasLetters(source.textContent || '')) return;
+
+    const existingTarget = childElements(container, 'target')[0];
+    const existingText = existingTarget?.textContent || '';
+    if (skipAlreadyTranslated && existingText.trim().length > 0 && detectLanguage(existingText) === targetLangCode) return;
+
+    const { masked, tags } = maskInlineMarkup(source);
+    units.push({
+      source: masked,
+      apply: (translated) => {
+        const target = getOrCreateTarget(container, source);
+        writeInlineMarkup(target, translated, tags);
+        (isVersion2 ? container : target).setAttribute('state', XLIFF_TRANSLATED_STATE);
+      }
+    });
+  });
+
+  return units;
+};
+
+// --- GETTEXT PO ---
+
+interface PoEntry {
+  lines: string[];
+}
+
+const unescapePoString = (value: string): string =>
+  value.replace(/\\(.)/g, (_, ch) => ch === 'n' ? '\n' : ch === 't' ? '\t' : ch === 'r' ? '\r' : ch);
+
+const escapePoString = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n').replace(/\t/g, '\\t').replace(/\r/g, '\\r');
+
+/**
+ * Read a keyword field (msgid, msgstr[1]...) including its "continuation" lines.
+ * Returns the line span so the field can be replaced in place.
+ */
+const readPoField = (lines: string[], keyword: string): { start: number, end: number, value: string } | null => {
+  const start = lines.findIndex(line => line.startsWith(`${keyword} "`));
+  if (start === -1) return null;
+
+  const quoted = (line: string) => line.substring(line.indexOf('"') + 1, line.lastIndexOf('"'));
+  let value = unescapePoString(quoted(lines[start]));
+  let end = start + 1;
+  while (end < lines.length && lines[end].trimStart().startsWith('"')) {
+    value += unescapePoString(quoted(lines[end].trim()));
+    end++;
+  }
+  return { start, end, value };
+};
+
+/**
+ * Format a field the way msgmerge does: multi-line values start with an empty "" line
+ */
+const formatPoField = (keyword: string, value: string): string[] => {
+  const parts = value.split(/(?<=\n)/);
+  if (parts.length <= 1) return [`${keyword} "${escapePoString(value)}"`];
+  return [`${keyword} ""`, ...parts.map(part => `"${escapePoString(part)}"`)];
+};
+
+const replacePoField = (entry: PoEntry, keyword: string, value: string) => {
+  const field = readPoField(entry.lines, keyword);
+  if (!field) return;
+  entry.lines.splice(field.start, field.end - field.start, ...formatPoField(keyword, value));
+};
+
+const parsePo = (content: string): PoEntry[] =>
+  content.split(/\n[ \t]*\n/).map(block => ({ lines: block.split('\n') }));
+
+const serializePo = (entries: PoEntry[]): string =>
+  entries.map(entry => entry.lines.join('\n')).join('\n\n');
+
+const collectPoUnits = (
+  entries: PoEntry[],
+  targetLang: SupportedLanguage,
+  skipAlreadyTranslated: boolean
+): I18nUnit[] => {
+  const units: I18nUnit[] = [];
+
+  entries.forEach(entry => {
+    // Obsolete entries (#~) are kept as-is
+    if (entry.lines.every(line => line.startsWith('#') || line.trim() === '')) return;
+
+    const msgid = readPoField(entry.lines, 'msgid');
+    if (!msgid) return;
+
+    // Header entry: only update the Language field
+    if (msgid.value === '') {
+      const header = readPoField(entry.lines, 'msgstr');
+      if (!header) return;
+      const languageLine = `Language: ${getLanguageCode(targetLang)}\n`;
+      const updated = /^Language:.*\n?/m.test(header.value)
+        ? header.value.replace(/^Language:.*\n?/m, languageLine)
+        : header.value + languageLine;
+      replacePoField(entry, 'msgstr', updated);
+      return;
+    }
+
+    const msgidPlural = readPoField(entry.lines, 'msgid_plural');
+
+    if (!msgidPlural) {
+      const msgstr = readPoField(entry.lines, 'msgstr');
+      if (!msgstr || !hasLetters(msgid.value)) return;
+      if (skipAlreadyTranslated && msgstr.value.length > 0) return;
+      units.push({ source: msgid.value, apply: (translated) => replacePoField(entry, 'msgstr', translated) });
+      return;
+    }
+
+    // Plural entry: msgstr[0] takes the singular, every other form the plural
+    const formKeywords = entry.lines
+      .map(line => line.match(/^(msgstr\[\d+\]) "/)?.[1])
+      .filter((keyword): keyword is string => !!keyword);
+    if (formKeywords.length === 0) return;
+    const isFilled = formKeywords.every(keyword => (readPoField(entry.lines, keyword)?.value || '').length > 0);
+    if (skipAlreadyTranslated && isFilled) return;
+
+    // Languages with a single plural form (ja, ko, vi, zh, th) only have msgstr[0]
+    const singularKeywords = formKeywords.length > 1 ? formKeywords.slice(0, 1) : [];
+    const pluralKeywords = formKeywords.length > 1 ? formKeywords.slice(1) : formKeywords;
+
+    if (singularKeywords.length > 0) {
+      units.push({
+        source: msgid.value,
+        apply: (translated) => singularKeywords.forEach(keyword => replacePoField(entry, keyword, translated))
+      });
+    }
+    units.push({
+      source: msgidPlural.value,
+      apply: (translated) => pluralKeywords.forEach(keyword => replacePoField(entry, keyword, translated))
+    });
+  });
+
+  return units;
+};
+
+// --- JSON (i18next) AND ARB ---
+
+interface JsonStringValue {
+  start: number;
+  end: number;
+  value: string;
+  path: string[];
+}
+
+/**
+ * Locate every string value (not key) in a JSON document together with its key path.
+ * Values are replaced in the original text, so key order, indentation and
+ * trailing newline stay exactly as they were.
+ */
+const scanJsonStrings = (content: string): JsonStringValue[] => {
+  const values: JsonStringValue[] = [];
+  const stack: Array<{ isObject: boolean, key: string }> = [];
+
+  for (let i = 0; i < content.length; i++) {
+    const ch = content[i];
+    if (ch === '{' || ch === '[') {
+      stack.push({ isObject: ch === '{', key: '' });
+    } else if (ch === '}' || ch === ']') {
+      stack.pop();
+    } else if (ch === '"') {
+      let end = i + 1;
+      while (end < content.length && content[end] !== '"') {
+        end += content[end] === '\\' ? 2 : 1;
+      }
+      const value: string = JSON.parse(content.substring(i, end + 1));
+
+      let next = end + 1;
+      while (/\s/.test(content[next] || '')) next++;
+      const top = stack[stack.length - 1];
+      if (top?.isObject && content[next] === ':') {
+        top.key = value;
+      } else {
+        values.push({ start: i, end: end + 1, value, path: stack.filter(frame => frame.isObject).map(frame => frame.key) });
+      }
+      i = end;
+    }
+  }
+  return values;
+};
+
+const replaceJsonSpans = (content: string, replacements: Array<{ start: number, end: number, text: string }>): string => {
+  let result = content;
+  [...replacements].sort((a, b) => b.start - a.start).forEach(({ start, end, text }) => {
+    result = result.substring(0, start) + text + result.substring(end);
+  });
+  return result;
+};
+
+/**
+ * ARB: set "@@locale", inserting it as the first key when the file has none
+ */
+const setArbLocale = (content: string, strings: JsonStringValue[], locale: string): string => {
+  const localeValue = strings.find(s => s.path.length === 1 && s.path[0] === '@@locale');
+  if (localeValue) return replaceJsonSpans(content, [{ start: localeValue.start, end: localeValue.end, text: JSON.stringify(locale) }]);
+
+  const openBrace = content.indexOf('{');
+  const indent = content.match(/\{\s*\n([ \t]+)"/)?.[1] ?? '  ';
+  return `${content.substring(0, openBrace + 1)}\n${indent}"@@locale": ${JSON.stringify(locale)},${content.substring(openBrace + 1)}`;
+};
+
+// --- MAIN PROCESSING ---
+
+/**
+ * Process localization resource file (XLIFF 1.2/2.0, gettext PO/POT, i18next JSON, Flutter ARB):
+ * only target/msgstr/value fields are written, everything else (keys, comments, order, metadata)
+ * is kept. ICU plural/select syntax and {name}/%s variables are protected by geminiService.
+ */
+export const processI18nResource = async (
+  file: File,
+  targetLang: SupportedLanguage,
+  context: string,
+  glossary: GlossaryItem[],
+  onProgress: (msg: string, percent: number) => void,
+  skipAlreadyTranslated: boolean = true,
+  sourceLang: string = 'auto',
+  blacklist: BlacklistItem[] = []
+): Promise<{ blob: Blob, translatedText: string }> => {
+  const format = detectI18nFormat(file.name);
+  if (!format) throw new Error(`Unsupported resource file: ${file.name}`);
+
+  onProgress(`Parsing ${format.toUpperCase()} resource file...`, 5);
+  const content = await file.text();
+  const targetLangCode = targetLang.toLowerCase().substring(0, 2);
+
+  let units: I18nUnit[];
+  let serialize: () => string;
+  let mimeType: string;
+
+  if (format === 'xliff') {
+    const doc = new DOMParser().parseFromString(content, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+      throw new Error('Invalid XLIFF file: XML could not be parsed');
+    }
+    units = collectXliffUnits(doc, targetLang, skipAlreadyTranslated);
+    serialize = () => {
+      const xml = new XMLSerializer().serializeToString(doc);
+      const declaration = content.match(/^\uFEFF?(<\?xml[^>]*\?>)/)?.[1];
+      return declaration && !xml.startsWith('<?xml') ? `${declaration}\n${xml}` : xml;
+    };
+    mimeType = 'application/x-xliff+xml';
+  } else if (format === 'po') {
+    const lineEnding = content.includes('\r\n') ? '\r\n' : '\n';
+    const entries = parsePo(content.replace(/\r\n/g, '\n'));
+    units = collectPoUnits(entries, targetLang, skipAlreadyTranslated);
+    serialize = () => serializePo(entries).replace(/\n/g, lineEnding);
+    mimeType = 'text/x-gettext-translation';
+  } else {
+    const strings = scanJsonStrings(content);
+    const replacements: Array<{ start: number, end: number, text: string }> = [];
+    const isArb = format === 'arb';
+
+    units = strings
+      .filter(s => !(isArb && s.path.some(key => key.startsWith('@'))))
+      .filter(s => hasLetters(s.value))
+      .filter(s => !(skipAlreadyTranslated && detectLanguage(s.value) === targetLangCode))
+      .map(s => ({
+        source: s.value,
+        apply: (translated: string) => replacements.push({ start: s.start, end: s.end, text: JSON.stringify(translated) })
+      }));
+    serialize = () => {
+      const translated = replaceJsonSpans(content, replacements);
+      return isArb ? setArbLocale(translated, scanJsonStrings(translated), getLanguageCode(targetLang)) : translated;
+    };
+    mimeType = 'application/json';
+  }
+
+  // Translate in batches (keys and comments are never sent)
+  if (units.length > 0) {
+    const totalBatches = Math.ceil(units.length / UNIT_BATCH_SIZE);
+    onProgress(`Translating ${units.length} strings in ${totalBatches} batches...`, 10);
+    const resourceContext = `${context ? context + '\n' : ''}These are UI strings from a software localization file. Keep <tN/> tokens, keep the tone short and consistent.`;
+
+    for (let i = 0; i < units.length; i += UNIT_BATCH_SIZE) {
+      const batch = units.slice(i, i + UNIT_BATCH_SIZE);
+      const batchNumber = Math.floor(i / UNIT_BATCH_SIZE) + 1;
+      onProgress(`Translating string batch ${batchNumber}/${totalBatches}...`, 10 + Math.floor((i / units.length) * 80));
+
+      const translated = await translateBatchStrings(batch.map(u => u.source), targetLang, resourceContext, glossary, sourceLang, blacklist);
+      batch.forEach((unit, idx) => {
+        if (translated[idx]) unit.apply(translated[idx]);
+      });
+    }
+  } else {
+    onProgress('No untranslated strings found...', 90);
+  }
+
+  onProgress('Writing resource file...', 95);
+  const translatedText = serialize();
+
+  onProgress('Done', 100);
+  return { blob: new Blob([translatedText], { type: mimeType }), translatedText };
+};
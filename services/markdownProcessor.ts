@@ -0,0 +1,275 @@
+import { translateBatchStrings } from './geminiService';
+import { SupportedLanguage, GlossaryItem, BlacklistItem } from '../types';
+
+/**
+ * A Markdown file is split into lines grouped as blocks: verbatim blocks (code fences,
+ * front matter, HTML, reference definitions, rules, blank lines) are written back
+ * byte-identical, text blocks keep each line's prefix (list marker, "> ", "## ")
+ * and only the content after it is translated.
+ */
+type MarkdownBlock =
+  | { kind: 'verbatim'; lines: string[] }
+  | { kind: 'text'; lines: Array<{ prefix: string; content: string; suffix: string }> }
+  | { kind: 'table-row'; cells: Array<{ lead: string; content: string; trail: string }>; edges: [string, string] };
+
+const MAX_BATCH_CHARS = 4000;
+const MAX_BATCH_UNITS = 40;
+
+const FENCE_START = /^\s{0,3}(`{3,}|~{3,})/;
+const FRONT_MATTER_DELIMITERS: Record<string, string> = { '---': '---', '+++': '+++' };
+// CommonMark HTML blocks: block-level tags, comments/declarations, or a tag alone on its line
+const HTML_BLOCK_START = /^\s{0,3}<(?:!--|\?|![A-Z]|\/?(?:address|article|aside|blockquote|body|center|details|dialog|div|dl|figure|footer|form|h[1-6]|header|hr|html|iframe|nav|ol|p|picture|section|summary|table|tbody|td|th|thead|tr|ul|video)(?:\s|\/?>|$))|^\s{0,3}<\/?[a-zA-Z][^>]*>\s*$/i;
+// <pre>, <script>, <style>, <textarea> may contain blank lines: they end at the closing tag
+const HTML_RAW_BLOCK_START = /^\s{0,3}<(pre|script|style|textarea)(?:\s|>|$)/i;
+const REFERENCE_DEFINITION = /^\s{0,3}\[[^\]]+\]:\s*\S+/;
+const THEMATIC_BREAK_OR_SETEXT = /^\s{0,3}(?:([-*_])(?:\s*\1){2,}|=+|-+)\s*$/;
+const TABLE_DELIMITER_ROW = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+const INDENTED_CODE = /^(?: {4}|\t)/;
+// Blockquote markers, list markers / task boxes, heading hashes
+const LINE_PREFIX = /^(\s*(?:>\s?)*)(\s*(?:[-*+]|\d{1,9}[.)])\s+(?:\[[ xX]\]\s+)?|#{1,6}\s+)?/;
+
+// --- PARSING ---
+
+const isTableRow = (line: string): boolean => /^\s*\|.*\|\s*$/.test(line) || (line.includes('|') && !line.trim().startsWith('`'));
+
+const splitTableRow = (line: string): MarkdownBlock => {
+  const match = line.match(/^(\s*\|?)(.*?)(\|?\s*)$/)!;
+  const cells = match[2].split(/(?<!\\)\|/).map(cell => {
+    const lead = cell.match(/^\s*/)![0];
+    const trail = cell.substring(lead.length).match(/\s*$/)![0];
+    return { lead, content: cell.substring(lead.length, cell.length - trail.length), trail };
+  });
+  return { kind: 'table-row', cells, edges: [match[1], match[3]] };
+};
+
+const splitTextLine = (line: string): { prefix: string; content: string; suffix: string } => {
+  const prefix = line.match(LINE_PREFIX)?.[0] || '';
+  let content = line.substring(prefix.length);
+  // Closing hashes of ATX headings and trailing hard-break spaces stay untouched
+  const suffix = (prefix.includes('#') ? content.match(/\s+#+\s*$/)?.[0] : content.match(/\s{2,}$/)?.[0]) || '';
+  content = content.substring(0, content.length - suffix.length);
+  return { prefix, content, suffix };
+};
+
+export const parseMarkdownBlocks = (content: string): MarkdownBlock[] => {
+  const lines = content.split('\n');
+  const blocks: MarkdownBlock[] = [];
+  const verbatim = (blockLines: string[]) => blocks.push({ kind: 'verbatim', lines: blockLines });
+  let i = 0;
+
+  // Front matter (YAML --- or TOML +++) at the very top
+  const frontMatterEnd = FRONT_MATTER_DELIMITERS[lines[0]?.trim()];
+  if (frontMatterEnd) {
+    const close = lines.findIndex((line, idx) => idx > 0 && line.trim() === frontMatterEnd);
+    if (close > 0) {
+      verbatim(lines.slice(0, close + 1));
+      i = close + 1;
+    }
+  }
+
+  let previousBlank = true;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.trim() === '') {
+      verbatim([line]);
+      previousBlank = true;
+      i++;
+      continue;
+    }
+
+    // Fenced code: everything up to the matching closing fence
+    const fence = line.match(FENCE_START);
+    if (fence) {
+      const marker = fence[1];
+      let end = i + 1;
+      while (end < lines.length && !new RegExp(`^\\s{0,3}${marker[0] === '`' ? '`' : '~'}{${marker.length},}\\s*$`).test(lines[end])) end++;
+      verbatim(lines.slice(i, end + 1));
+      i = end + 1;
+      previousBlank = false;
+      continue;
+    }
+
+    // Indented code block (only after a blank line, otherwise it is a lazy continuation)
+    const lastText = blocks[blocks.length - 1];
+    const previousBlock = blocks.slice().reverse().find(b => !(b.kind === 'verbatim' && b.lines.every(l => l.trim() === '')));
+    const inList = previousBlock?.kind === 'text' && /^\s*(?:[-*+]|\d{1,9}[.)])\s/.test(previousBlock.lines[0].prefix);
+    if (previousBlank && INDENTED_CODE.test(line) && !inList) {
+      const start = i;
+      while (i < lines.length && (INDENTED_CODE.test(lines[i]) || lines[i].trim() === '')) i++;
+      // Trailing blank lines are not part of the code block
+      while (i > start && lines[i - 1].trim() === '') i--;
+      verbatim(lines.slice(start, i));
+      previousBlank = false;
+      continue;
+    }
+
+    const rawBlock = line.match(HTML_RAW_BLOCK_START);
+    if (rawBlock) {
+      let end = i;
+      while (end < lines.length - 1 && !new RegExp(`</${rawBlock[1]}>`, 'i').test(lines[end])) end++;
+      verbatim(lines.slice(i, end + 1));
+      i = end + 1;
+      previousBlank = false;
+      continue;
+    }
+
+    // Other HTML blocks run until the next blank line
+    if (HTML_BLOCK_START.test(line)) {
+      const start = i;
+      while (i < lines.length && lines[i].trim() !== '') i++;
+      verbatim(lines.slice(start, i));
+      previousBlank = false;
+      continue;
+    }
+
+    if (REFERENCE_DEFINITION.test(line) || THEMATIC_BREAK_OR_SETEXT.test(line)) {
+      verbatim([line]);
+      previousBlank = false;
+      i++;
+      continue;
+    }
+
+    // Tables: header row followed by a delimiter row
+    if (isTableRow(line) && TABLE_DELIMITER_ROW.test(lines[i + 1] || '') && lines[i + 1].includes('|')) {
+      blocks.push(splitTableRow(line));
+      verbatim([lines[i + 1]]);
+      i += 2;
+      while (i < lines.length && lines[i].trim() !== '' && lines[i].includes('|')) {
+        blocks.push(splitTableRow(lines[i]));
+        i++;
+      }
+      previousBlank = false;
+      continue;
+    }
+
+    // Text: headings and list items start a new block, plain lines continue the paragraph
+    const textLine = splitTextLine(line);
+    const startsBlock = previousBlank || textLine.prefix.trim().replace(/>/g, '').length > 0 ||
+      lastText?.kind !== 'text' || lastText.lines[0].prefix.includes('#');
+    if (startsBlock) {
+      blocks.push({ kind: 'text', lines: [textLine] });
+    } else {
+      (lastText as Extract<MarkdownBlock, { kind: 'text' }>).lines.push(textLine);
+    }
+    previousBlank = false;
+    i++;
+  }
+
+  return blocks;
+};
+
+export const serializeMarkdownBlocks = (blocks: MarkdownBlock[]): string => {
+  return blocks.flatMap(block => {
+    if (block.kind === 'verbatim') return block.lines;
+    if (block.kind === 'table-row') {
+      return [block.edges[0] + block.cells.map(c => c.lead + c.content + c.trail).join('|') + block.edges[1]];
+    }
+    return block.lines.map(l => l.prefix + l.content + l.suffix);
+  }).join('\n');
+};
+
+// --- INLINE PROTECTION ---
+
+// Inline code, images/links destinations, reference links, autolinks, inline HTML, footnote refs
+const INLINE_PROTECTED = /(`+)[\s\S]*?\1|\]\([^)\s]*(?:\s+"[^"]*")?\)|\]\[[^\]]*\]|<(?:https?:|mailto:)[^>]+>|<\/?[a-zA-Z][^>]*>|\[\^[^\]]+\]|&[a-zA-Z#0-9]+;/g;
+
+const maskInline = (text: string): { masked: string, tokens: string[] } => {
+  const tokens: string[] = [];
+  const masked = text.replace(INLINE_PROTECTED, (match) => {
+    tokens.push(match);
+    return `<t${tokens.length - 1}/>`;
+  });
+  return { masked, tokens };
+};
+
+const unmaskInline = (text: string, tokens: string[]): string => {
+  const restored = text.replace(/<t(\d+)\/>/g, (token, idx) => tokens[parseInt(idx, 10)] ?? '');
+  // Tokens the model dropped (inline code, URLs) are appended so nothing is lost
+  const missing = tokens.filter((_, idx) => !text.includes(`<t${idx}/>`));
+  return missing.length > 0 ? `${restored} ${missing.join(' ')}` : restored;
+};
+
+// --- MAIN PROCESSING ---
+
+/**
+ * Process Markdown / plain text: translate prose, headings, list items, table cells and
+ * link/image text in size-bounded batches. Code fences, inline code, URLs, front matter,
+ * HTML blocks and reference definitions are written back byte-identical.
+ */
+export const processMarkdown = async (
+  fileContent: string,
+  targetLang: SupportedLanguage,
+  context: string,
+  glossary: GlossaryItem[],
+  onProgress: (msg: string, percent: number) => void,
+  sourceLang: string = 'auto',
+  blacklist: BlacklistItem[] = []
+): Promise<{ blob: Blob, translatedText: string }> => {
+  onProgress('Analyzing Markdown structure...', 10);
+  const lineEnding = fileContent.includes('\r\n') ? '\r\n' : '\n';
+  const blocks = parseMarkdownBlocks(fileContent.replace(/\r\n/g, '\n'));
+
+  interface MarkdownUnit {
+    source: string;
+    apply: (translated: string) => void;
+  }
+  const units: MarkdownUnit[] = [];
+  const addUnit = (text: string, apply: (translated: string) => void) => {
+    if (!/\p{L}/u.test(text.replace(INLINE_PROTECTED, ''))) return;
+    const { masked, tokens } = maskInline(text);
+    units.push({ source: masked, apply: (translated) => apply(unmaskInline(translated, tokens)) });
+  };
+
+  blocks.forEach(block => {
+    if (block.kind === 'table-row') {
+      block.cells.forEach(cell => addUnit(cell.content, (translated) => { cell.content = translated.replace(/\n/g, ' '); }));
+    } else if (block.kind === 'text') {
+      addUnit(block.lines.map(l => l.content).join('\n'), (translated) => {
+        const translatedLines = translated.split('\n');
+        if (translatedLines.length === block.lines.length) {
+          block.lines.forEach((line, idx) => { line.content = translatedLines[idx]; });
+        } else {
+          // Line count changed: keep the whole paragraph on its first line
+          block.lines[0].content = translatedLines.join(' ');
+          block.lines.splice(1);
+        }
+      });
+    }
+  });
+
+  // Size-bounded batches so long documents are neither truncated nor drifting
+  const batches: MarkdownUnit[][] = [];
+  let current: MarkdownUnit[] = [];
+  let currentChars = 0;
+  units.forEach(unit => {
+    if (current.length > 0 && (currentChars + unit.source.length > MAX_BATCH_CHARS || current.length >= MAX_BATCH_UNITS)) {
+      batches.push(current);
+      current = [];
+      currentChars = 0;
+    }
+    current.push(unit);
+    currentChars += unit.source.length;
+  });
+  if (current.length > 0) batches.push(current);
+
+  onProgress(`Translating ${units.length} blocks in ${batches.length} batches...`, 15);
+  const markdownContext = `${context ? context + '\n' : ''}These are consecutive blocks of one Markdown document. Keep Markdown emphasis, line breaks (\\n) and <tN/> tokens.`;
+
+  for (let b = 0; b < batches.length; b++) {
+    const batch = batches[b];
+    onProgress(`Translating block batch ${b + 1}/${batches.length}...`, 15 + Math.floor((b / batches.length) * 75));
+    const translated = await translateBatchStrings(batch.map(u => u.source), targetLang, markdownContext, glossary, sourceLang, blacklist);
+    batch.forEach((unit, idx) => {
+      if (translated[idx]) unit.apply(translated[idx]);
+    });
+  }
+
+  onProgress('Reconstructing Markdown file...', 95);
+  let translatedText = serializeMarkdownBlocks(blocks);
+  if (lineEnding === '\r\n') translatedText = translatedText.replace(/\n/g, '\r\n');
+
+  onProgress('Done', 100);
+  const blob = new Blob([translatedText], { type: 'text/markdown' });
+  return { blob, translatedText };
+};
@@ -0,0 +1,214 @@
+import JSZip from 'jszip';
+import { translateBatchStrings, detectLanguage } from './geminiService';
+import { SupportedLanguage, GlossaryItem, BlacklistItem } from '../types';
+import { encodeRunSegments, decodeRunSegments } from './runSegments';
+
+const TEXT_NS = 'urn:oasis:names:tc:opendocument:xmlns:text:1.0';
+const TABLE_NS = 'urn:oasis:names:tc:opendocument:xmlns:table:1.0';
+const OFFICE_NS = 'urn:oasis:names:tc:opendocument:xmlns:office:1.0';
+const CONFIG_NS = 'urn:oasis:names:tc:opendocument:xmlns:config:1.0';
+
+// XML parts with user-visible text (styles.xml holds headers, footers and master pages)
+const ODF_TEXT_PARTS = ['content.xml', 'styles.xml'];
+
+// Elements whose text nodes are part of the paragraph text (fields like page numbers are not)
+const RUN_CONTAINERS = new Set(['p', 'h', 'span', 'a', 'ruby-base', 'meta']);
+
+// Nested paragraphs (footnotes, frames, comments) are translated on their own
+const PARAGRAPH_BOUNDARIES = new Set(['p', 'h', 'note', 'frame', 'annotation']);
+
+/**
+ * Text nodes that belong directly to this text:p / text:h
+ */
+const getParagraphRuns = (paragraph: Element): Text[] => {
+  const runs: Text[] = [];
+  const walker = paragraph.ownerDocument.createTreeWalker(paragraph, 4 /* NodeFilter.SHOW_TEXT */);
+
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const parent = node.parentElement;
+    if (!parent || parent.namespaceURI !== TEXT_NS || !RUN_CONTAINERS.has(parent.localName)) continue;
+
+    let owner: Element | null = parent;
+    while (owner && !PARAGRAPH_BOUNDARIES.has(owner.localName)) owner = owner.parentElement;
+    if (owner === paragraph) runs.push(node as Text);
+  }
+  return runs;
+};
+
+/**
+ * Spreadsheet cells holding numbers, dates or currency display a formatted value in
+ * text:p; only string cells are translated.
+ */
+const isNonStringCell = (paragraph: Element): boolean => {
+  let parent = paragraph.parentElement;
+  while (parent && !(parent.namespaceURI === TABLE_NS && parent.localName === 'table-cell')) {
+    parent = parent.parentElement;
+  }
+  const valueType = parent?.getAttributeNS(OFFICE_NS, 'value-type');
+  return !!valueType && valueType !== 'string';
+};
+
+/**
+ * Quote a sheet name for ODF formulas and range addresses when needed
+ */
+const formatSheetReference = (name: string): string =>
+  /^[\p{L}\p{N}_]+$/u.test(name) ? name : `'${name.replace(/'/g, "''")}'`;
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Point formulas and range attributes (validations, named ranges, charts) at the renamed sheet:
+ * [Sheet1.A1], [$'My Sheet'.A1], Sheet1.A1:Sheet1.B5
+ */
+const renameSheetReferences = (doc: Document, oldName: string, newName: string) => {
+  const oldForms = [escapeRegExp(oldName), escapeRegExp(`'${oldName.replace(/'/g, "''")}'`)].join('|');
+  const pattern = new RegExp(`(^|[\\[\\s:;(])(\\$?)(?:${oldForms})\\.`, 'g');
+  const replacement = `$1$2${formatSheetReference(newName).replace(/\$/g, '$$$$')}.`;
+
+  Array.from(doc.getElementsByTagName('*')).forEach(el => {
+    Array.from(el.attributes).forEach(attr => {
+      const isReference = attr.localName === 'formula' || attr.localName.endsWith('-address');
+      if (!isReference || !attr.value.includes(oldName)) return;
+      const updated = attr.value.replace(pattern, replacement);
+      if (updated !== attr.value) el.setAttributeNS(attr.namespaceURI, attr.name, updated);
+    });
+  });
+};
+
+/**
+ * Process OpenDocument file (.odt / .ods / .odp): translate paragraphs and headings
+ * (body, tables, cells, presentation frames, notes, headers/footers) with span formatting
+ * kept, translate spreadsheet sheet names, and write the package back with `mimetype` stored first.
+ */
+export const processOdf = async (
+  file: File,
+  targetLang: SupportedLanguage,
+  context: string,
+  glossary: GlossaryItem[],
+  onProgress: (msg: string, percent: number) => void,
+  skipAlreadyTranslated: boolean = true,
+  sourceLang: string = 'auto',
+  blacklist: BlacklistItem[] = []
+): Promise<Blob> => {
+  onProgress('Unzipping OpenDocument package...', 5);
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+
+  const mimeType = (await zip.file('mimetype')?.async('string'))?.trim();
+  if (!mimeType || !mimeType.startsWith('application/vnd.oasis.opendocument.') || !zip.file('content.xml')) {
+    throw new Error('Invalid OpenDocument file: mimetype or content.xml not found');
+  }
+
+  const parser = new DOMParser();
+  const serializer = new XMLSerializer();
+  const docs = new Map<string, Document>();
+  const targetLangCode = targetLang.toLowerCase().substring(0, 2);
+
+  interface ParagraphRef {
+    filePath: string;
+    runs: Text[];
+    text: string;
+  }
+  const paragraphs: ParagraphRef[] = [];
+
+  // 1. Collect text:p / text:h paragraphs
+  onProgress('Scanning paragraphs, cells and frames...', 10);
+  for (const path of ODF_TEXT_PARTS) {
+    const xml = await zip.file(path)?.async('string');
+    if (!xml) continue;
+    const doc = parser.parseFromString(xml, 'application/xml');
+    docs.set(path, doc);
+
+    const elements = [
+      ...Array.from(doc.getElementsByTagNameNS(TEXT_NS, 'p')),
+      ...Array.from(doc.getElementsByTagNameNS(TEXT_NS, 'h'))
+    ];
+    elements.forEach(paragraph => {
+      if (isNonStringCell(paragraph)) return;
+      const runs = getParagraphRuns(paragraph);
+      const runTexts = runs.map(run => run.data);
+      const plainText = runTexts.join('');
+      if (!/\p{L}/u.test(plainText)) return;
+      if (skipAlreadyTranslated && detectLanguage(plainText) === targetLangCode) return;
+
+      paragraphs.push({ filePath: path, runs, text: encodeRunSegments(runTexts) });
+    });
+  }
+
+  // 2. Translate paragraphs in batches
+  if (paragraphs.length > 0) {
+    const BATCH_SIZE = 40;
+    const totalBatches = Math.ceil(paragraphs.length / BATCH_SIZE);
+    onProgress(`Translating ${paragraphs.length} paragraphs in ${totalBatches} batches...`, 15);
+
+    for (let i = 0; i < paragraphs.length; i += BATCH_SIZE) {
+      const chunk = paragraphs.slice(i, i + BATCH_SIZE);
+      const batchNumber = Math.floor(i / BATCH_SIZE) + 1;
+      onProgress(`Translating paragraph batch ${batchNumber}/${totalBatches}...`, 15 + Math.floor((i / paragraphs.length) * 70));
+
+      const translated = await translateBatchStrings(chunk.map(p => p.text), targetLang, context, glossary, sourceLang, blacklist);
+      chunk.forEach((paragraph, idx) => {
+        if (!translated[idx]) return;
+        const runTexts = decodeRunSegments(translated[idx], paragraph.runs.length);
+        paragraph.runs.forEach((run, runIdx) => { run.data = runTexts[runIdx]; });
+      });
+    }
+  } else {
+    onProgress('No translatable text found...', 85);
+  }
+
+  // 3. Spreadsheets: translate sheet names and update references to them
+  const contentDoc = docs.get('content.xml')!;
+  const tables = mimeType.endsWith('.spreadsheet') ? Array.from(contentDoc.getElementsByTagNameNS(TABLE_NS, 'table')) : [];
+  const sheetNames = tables.map(t => t.getAttributeNS(TABLE_NS, 'name') || '');
+  const sheetsToTranslate = sheetNames.filter(name =>
+    /\p{L}/u.test(name) && !(skipAlreadyTranslated && detectLanguage(name) === targetLangCode)
+  );
+
+  let settingsDoc: Document | null = null;
+  if (sheetsToTranslate.length > 0) {
+    onProgress(`Translating ${sheetsToTranslate.length} sheet names...`, 88);
+    const settingsXml = await zip.file('settings.xml')?.async('string');
+    settingsDoc = settingsXml ? parser.parseFromString(settingsXml, 'application/xml') : null;
+
+    try {
+      const translatedNames = await translateBatchStrings(sheetsToTranslate, targetLang, context, glossary, sourceLang, blacklist);
+      const usedNames = new Set(sheetNames);
+      translatedNames.forEach((newName, idx) => {
+        const oldName = sheetsToTranslate[idx];
+        if (!newName || newName === oldName) return;
+
+        // Same restrictions as Calc: no [ ] * ? : / \ and no leading/trailing apostrophe
+        const cleanName = newName.replace(/[\[\]\*\/\\\?:]/g, '').replace(/^'+|'+$/g, '').trim();
+        if (!cleanName || usedNames.has(cleanName)) return;
+        usedNames.add(cleanName);
+
+        tables[sheetNames.indexOf(oldName)].setAttributeNS(TABLE_NS, 'table:name', cleanName);
+        renameSheetReferences(contentDoc, oldName, cleanName);
+
+        // settings.xml remembers the active sheet and per-sheet view settings by name
+        if (settingsDoc) {
+          Array.from(settingsDoc.getElementsByTagNameNS(CONFIG_NS, 'config-item-map-entry')).forEach(entry => {
+            if (entry.getAttributeNS(CONFIG_NS, 'name') === oldName) entry.setAttributeNS(CONFIG_NS, 'config:name', cleanName);
+          });
+          Array.from(settingsDoc.getElementsByTagNameNS(CONFIG_NS, 'config-item')).forEach(item => {
+            if (item.getAttributeNS(CONFIG_NS, 'name') === 'ActiveTable' && item.textContent === oldName) item.textContent = cleanName;
+          });
+        }
+        console.log(`Renamed sheet: "${oldName}" → "${cleanName}"`);
+      });
+    } catch (e) {
+      console.error('Sheet name translation failed', e);
+      onProgress('Sheet name translation failed, continuing...', 90);
+    }
+  }
+
+  // 4. Write the package back; ODF requires `mimetype` as the first entry, uncompressed
+  onProgress('Finalizing OpenDocument package...', 95);
+  docs.forEach((doc, path) => zip.file(path, serializer.serializeToString(doc)));
+  if (settingsDoc) zip.file('settings.xml', serializer.serializeToString(settingsDoc));
+  zip.file('mimetype', mimeType, { compression: 'STORE' });
+
+  const blob = await zip.generateAsync({ type: 'blob', mimeType, compression: 'DEFLATE' });
+  onProgress('Done', 100);
+  return blob;
+};
@@ -0,0 +1,35 @@
+import JSZip from 'jszip';
+
+/**
+ * OPC Package - helpers for the Open Packaging Conventions layer shared by
+ * .docx, .xlsx and .pptx files: parts inside a ZIP linked by _rels/*.rels files.
+ */
+
+const REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+const resolvePartPath = (sourcePath: string, target: string): string => {
+  if (target.startsWith('/')) return target.substring(1);
+  const parts = sourcePath.split('/').slice(0, -1);
+  target.split('/').forEach(segment => {
+    if (segment === '..') parts.pop();
+    else if (segment !== '.') parts.push(segment);
+  });
+  return parts.join('/');
+};
+
+/**
+ * Read the relationships of a part: rId → absolute part path (external links are skipped)
+ */
+export const readRelationships = async (zip: JSZip, partPath: string): Promise<Map<string, string>> => {
+  const relsPath = partPath.replace(/([^/]+)$/, '_rels/$1.rels');
+  const xml = await zip.file(relsPath)?.async('string');
+  const rels = new Map<string, string>();
+  if (!xml) return rels;
+
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  Array.from(doc.getElementsByTagNameNS(REL_NS, 'Relationship')).forEach(rel => {
+    if (rel.getAttribute('TargetMode') === 'External') return;
+    rels.set(rel.getAttribute('Id') || '', resolvePartPath(partPath, rel.getAttribute('Target') || ''));
+  });
+  return rels;
+};
@@ -0,0 +1,119 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import type { PDFPageProxy } from 'pdfjs-dist';
+import { translateText, extractTextFromBase64 } from './geminiService';
+import { SupportedLanguage, GlossaryItem, BlacklistItem } from '../types';
+
+// Pages with less extractable text than this are treated as scanned and sent to OCR
+const MIN_TEXT_LAYER_CHARS = 20;
+const OCR_RENDER_SCALE = 2;
+
+/**
+ * Read the embedded text layer of a page, keeping line breaks
+ */
+const extractPageText = async (page: PDFPageProxy): Promise<string> => {
+  const content = await page.getTextContent();
+  let text = '';
+  for (const item of content.items) {
+    if (!('str' in item)) continue;
+    text += item.str;
+    if (item.hasEOL) text += '\n';
+  }
+  return text.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+};
+
+/**
+ * Render a page to PNG and run it through Gemini OCR (for scanned pages).
+ * API failures (quota, network, key) are thrown so the page can be reported.
+ */
+const ocrPage = async (page: PDFPageProxy): Promise<string> => {
+  const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+  const canvas = document.createElement('canvas');
+  canvas.width = viewport.width;
+  canvas.height = viewport.height;
+  const canvasContext = canvas.getContext('2d');
+  if (!canvasContext) return '';
+
+  await page.render({ canvas, canvasContext, viewport }).promise;
+  const base64 = canvas.toDataURL('image/png').split(',')[1];
+  const text = await extractTextFromBase64(base64, 'image/png', true);
+  return text.trim();
+};
+
+/**
+ * Process PDF file: extract text page by page (text layer, OCR fallback for scanned pages),
+ * translate each page and return a structured Markdown document.
+ * Page arrays are returned so the preview can align original and translated pages.
+ */
+export const processPdf = async (
+  file: File,
+  targetLang: SupportedLanguage,
+  context: string,
+  glossary: GlossaryItem[],
+  onProgress: (msg: string, percent: number) => void,
+  sourceLang: string = 'auto',
+  blacklist: BlacklistItem[] = []
+): Promise<{ blob: Blob, translatedText: string, originalPages: string[], translatedPages: string[], warnings: string[] }> => {
+  onProgress('Loading PDF...', 5);
+  const pdf = await pdfjsLib.getDocument({ data: await file.arrayBuffer() }).promise;
+  const totalPages = pdf.numPages;
+
+  const originalPages: string[] = [];
+  const translatedPages: string[] = [];
+  let ocrPageCount = 0;
+  const failedOcrPages: number[] = [];
+
+  for (let pageNumber = 1; pageNumber <= totalPages; pageNumber++) {
+    const basePercent = 10 + Math.floor(((pageNumber - 1) / totalPages) * 85);
+    const halfPageSpan = Math.floor(85 / totalPages / 2);
+    const page = await pdf.getPage(pageNumber);
+
+    onProgress(`Extracting text from page ${pageNumber}/${totalPages}...`, basePercent);
+    let pageText = await extractPageText(page);
+
+    if (pageText.length < MIN_TEXT_LAYER_CHARS) {
+      onProgress(`Page ${pageNumber}/${totalPages} has no text layer, running OCR...`, basePercent);
+      try {
+        const ocrText = await ocrPage(page);
+        if (ocrText.length > pageText.length) {
+          pageText = ocrText;
+          ocrPageCount++;
+        }
+      } catch (err) {
+        console.error(`OCR failed for PDF page ${pageNumber}`, err);
+        failedOcrPages.push(pageNumber);
+      }
+    }
+    page.cleanup();
+
+    originalPages.push(pageText);
+
+    if (pageText.trim().length === 0) {
+      translatedPages.push('');
+      continue;
+    }
+
+    onProgress(`Translating page ${pageNumber}/${totalPages}...`, basePercent + halfPageSpan);
+    const translated = await translateText(pageText, targetLang, context, glossary, sourceLang, blacklist);
+    translatedPages.push(translated.trim());
+  }
+
+  await pdf.destroy();
+
+  if (ocrPageCount > 0) {
+    console.log(`📄 OCR used for ${ocrPageCount}/${totalPages} scanned PDF pages`);
+  }
+
+  const warnings: string[] = [];
+  if (failedOcrPages.length > 0) {
+    warnings.push(`OCR failed for scanned page${failedOcrPages.length > 1 ? 's' : ''} ${failedOcrPages.join(', ')}; their text is missing from the translation.`);
+  }
+
+  onProgress('Building Markdown output...', 97);
+  const translatedText = translatedPages
+    .map((text, idx) => `## Page ${idx + 1}\n\n${text || '_No text detected on this page._'}`)
+    .join('\n\n---\n\n');
+
+  onProgress('Done', 100);
+  const blob = new Blob([translatedText], { type: 'text/markdown' });
+  return { blob, translatedText, originalPages, translatedPages, warnings };
+};
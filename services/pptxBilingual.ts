@@ -0,0 +1,351 @@
+/**
+ * PPTX Bilingual - output modes that keep the source text next to the translation.
+ *
+ *   - duplicate: every translated slide is a copy inserted right after its original
+ *   - inline:    the translation is added under each source paragraph in a smaller grey font
+ *   - notes:     the slide is translated and its source text goes into the speaker notes
+ *
+ * These helpers edit the package directly (parts, relationships, [Content_Types].xml);
+ * processPptx decides which slides and paragraphs they apply to.
+ */
+
+import JSZip from 'jszip';
+
+export type PptxBilingualMode = 'replace' | 'duplicate' | 'inline' | 'notes';
+
+const A_NS = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const P_NS = 'http://schemas.openxmlformats.org/presentationml/2006/main';
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const CT_NS = 'http://schemas.openxmlformats.org/package/2006/content-types';
+
+const REL_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument';
+
+const TRANSLATION_COLOR = '808080';
+const TRANSLATION_SCALE = 0.8;
+const DEFAULT_FONT_SIZE = 18;
+
+// --- PACKAGE HELPERS ---
+
+const parser = new DOMParser();
+const serializer = new XMLSerializer();
+
+const relsPathOf = (partPath: string): string => partPath.replace(/([^/]+)$/, '_rels/$1.rels');
+const fileNameOf = (path: string): string => path.substring(path.lastIndexOf('/') + 1);
+
+const loadXml = async (zip: JSZip, path: string): Promise<Document | null> => {
+  const xml = await zip.file(path)?.async('string');
+  return xml ? parser.parseFromString(xml, 'application/xml') : null;
+};
+
+const saveXml = (zip: JSZip, path: string, doc: Document) => zip.file(path, serializer.serializeToString(doc));
+
+const loadRels = async (zip: JSZip, partPath: string): Promise<Document> =>
+  (await loadXml(zip, relsPathOf(partPath))) ||
+  parser.parseFromString(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="${REL_NS}"/>`, 'application/xml');
+
+/**
+ * Add a relationship to a part and return its new rId
+ */
+const addRelationship = async (zip: JSZip, partPath: string, type: string, target: string): Promise<string> => {
+  const rels = await loadRels(zip, partPath);
+  const ids = Array.from(rels.getElementsByTagNameNS(REL_NS, 'Relationship'))
+    .map(rel => parseInt((rel.getAttribute('Id') || '').replace(/^rId/, ''), 10) || 0);
+  const id = `rId${Math.max(0, ...ids) + 1}`;
+  const rel = rels.createElementNS(REL_NS, 'Relationship');
+  rel.setAttribute('Id', id);
+  rel.setAttribute('Type', `${REL_TYPE}/${type}`);
+  rel.setAttribute('Target', target);
+  rels.documentElement.appendChild(rel);
+  saveXml(zip, relsPathOf(partPath), rels);
+  return id;
+};
+
+/**
+ * Next free part name: ppt/slides/slide12.xml, ppt/media/image7.png, ...
+ */
+const nextPartPath = (zip: JSZip, prefix: string, extension: string, reserved: Set<string>): string => {
+  let max = 0;
+  const pattern = new RegExp(`^${prefix.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(\\d+)\\.`);
+  [...Object.keys(zip.files), ...reserved].forEach(path => {
+    const match = path.match(pattern);
+    if (match) max = Math.max(max, parseInt(match[1], 10));
+  });
+  const path = `${prefix}${max + 1}${extension}`;
+  reserved.add(path);
+  return path;
+};
+
+const getContentTypeOverride = (types: Document, partPath: string): string | null =>
+  Array.from(types.getElementsByTagNameNS(CT_NS, 'Override'))
+    .find(o => o.getAttribute('PartName') === `/${partPath}`)?.getAttribute('ContentType') || null;
+
+const addContentTypeOverride = (types: Document, partPath: string, contentType: string) => {
+  if (getContentTypeOverride(types, partPath)) return;
+  const override = types.createElementNS(CT_NS, 'Override');
+  override.setAttribute('PartName', `/${partPath}`);
+  override.setAttribute('ContentType', contentType);
+  types.documentElement.appendChild(override);
+};
+
+// --- DUPLICATE MODE ---
+
+// Parts referenced by a slide that hold translatable text (or translated images) must not be
+// shared between the original and its copy
+const COPIED_PART_PATTERN = /^ppt\/(charts\/chart\d+|diagrams\/(data|drawing)\d+)\.xml$/;
+
+/**
+ * Insert a copy of each slide right after it (same layout, shapes and formatting).
+ * Charts, SmartArt, notes and the media in `copyMedia` are copied too so translating the copy
+ * leaves the original untouched. Comments stay with the original slide.
+ * Returns original part path → copied part path.
+ */
+export const duplicateSlidesForTranslation = async (
+  zip: JSZip,
+  slidePaths: string[],
+  copyMedia: (mediaPath: string) => boolean
+): Promise<Map<string, string>> => {
+  const copies = new Map<string, string>();
+  const reserved = new Set<string>();
+  const types = (await loadXml(zip, '[Content_Types].xml'))!;
+  const presentation = (await loadXml(zip, 'ppt/presentation.xml'))!;
+  const presentationRels = await loadRels(zip, 'ppt/presentation.xml');
+  const sldIds = Array.from(presentation.getElementsByTagNameNS(P_NS, 'sldId'));
+  let nextSlideId = Math.max(255, ...sldIds.map(el => parseInt(el.getAttribute('id') || '0', 10))) + 1;
+
+  const copyPart = async (sourcePath: string, targetPath: string, contentType: string | null) => {
+    const file = zip.file(sourcePath);
+    if (!file) return;
+    zip.file(targetPath, await file.async('uint8array'));
+    const rels = zip.file(relsPathOf(sourcePath));
+    // Same directory: relative targets in the copied .rels stay valid
+    if (rels) zip.file(relsPathOf(targetPath), await rels.async('string'));
+    if (contentType) addContentTypeOverride(types, targetPath, contentType);
+    copies.set(sourcePath, targetPath);
+  };
+
+  // Chart style and color parts belong to one chart each
+  const copyChartStyleParts = async (chartPath: string) => {
+    const rels = await loadRels(zip, chartPath);
+    for (const rel of Array.from(rels.getElementsByTagNameNS(REL_NS, 'Relationship'))) {
+      const target = rel.getAttribute('Target') || '';
+      const match = target.match(/^(style|colors)(\d+)(\.xml)$/);
+      if (!match) continue;
+      const copiedPath = nextPartPath(zip, `ppt/charts/${match[1]}`, match[3], reserved);
+      await copyPart(`ppt/charts/${target}`, copiedPath, getContentTypeOverride(types, `ppt/charts/${target}`));
+      rel.setAttribute('Target', fileNameOf(copiedPath));
+    }
+    saveXml(zip, relsPathOf(chartPath), rels);
+  };
+
+  for (const slidePath of slidePaths) {
+    const copyPath = nextPartPath(zip, 'ppt/slides/slide', '.xml', reserved);
+    await copyPart(slidePath, copyPath, `${CONTENT_TYPE}.presentationml.slide+xml`);
+
+    // Point the copy at its own charts / SmartArt / notes / media, drop comments
+    const rels = await loadRels(zip, copyPath);
+    for (const rel of Array.from(rels.getElementsByTagNameNS(REL_NS, 'Relationship'))) {
+      const type = rel.getAttribute('Type') || '';
+      const target = rel.getAttribute('Target') || '';
+      if (/\/(comments|comment)$/.test(type) || /\/comments\//.test(target)) {
+        rel.parentNode?.removeChild(rel);
+        continue;
+      }
+      if (rel.getAttribute('TargetMode') === 'External') continue;
+      const resolved = target.startsWith('/') ? target.substring(1) : `ppt/${target.replace(/^(\.\.\/)+/, '')}`;
+
+      if (/\/notesSlide$/.test(type)) {
+        // A notes slide points back at its slide, so each copy needs its own
+        const notesPath = nextPartPath(zip, 'ppt/notesSlides/notesSlide', '.xml', reserved);
+        await copyPart(resolved, notesPath, `${CONTENT_TYPE}.presentationml.notesSlide+xml`);
+        if (!copies.has(resolved)) {
+          rel.parentNode?.removeChild(rel);
+          continue;
+        }
+        const notesRels = await loadRels(zip, notesPath);
+        Array.from(notesRels.getElementsByTagNameNS(REL_NS, 'Relationship'))
+          .filter(notesRel => /\/slide$/.test(notesRel.getAttribute('Type') || ''))
+          .forEach(notesRel => notesRel.setAttribute('Target', `../slides/${fileNameOf(copyPath)}`));
+        saveXml(zip, relsPathOf(notesPath), notesRels);
+        rel.setAttribute('Target', target.replace(fileNameOf(resolved), fileNameOf(notesPath)));
+        continue;
+      }
+      const isMedia = resolved.startsWith('ppt/media/') && copyMedia(resolved);
+      if (!COPIED_PART_PATTERN.test(resolved) && !isMedia) continue;
+
+      let copiedPath = copies.get(resolved);
+      if (!copiedPath) {
+        const match = resolved.match(/^(.*?)(\d+)(\.[^.]+)$/);
+        if (!match) continue;
+        copiedPath = nextPartPath(zip, match[1], match[3], reserved);
+        await copyPart(resolved, copiedPath, getContentTypeOverride(types, resolved));
+        if (resolved.startsWith('ppt/charts/')) await copyChartStyleParts(copiedPath);
+      }
+      rel.setAttribute('Target', target.replace(fileNameOf(resolved), fileNameOf(copiedPath)));
+    }
+    saveXml(zip, relsPathOf(copyPath), rels);
+
+    // Register the copy in the slide list right after the original
+    const relId = await addRelationship(zip, 'ppt/presentation.xml', 'slide', copyPath.replace(/^ppt\//, ''));
+    const presentationRel = Array.from(presentationRels.getElementsByTagNameNS(REL_NS, 'Relationship'))
+      .find(rel => `ppt/${rel.getAttribute('Target')}` === slidePath || rel.getAttribute('Target') === `/${slidePath}`);
+    const original = sldIds.find(el => el.getAttributeNS(R_NS, 'id') === presentationRel?.getAttribute('Id'));
+    if (!original) continue;
+    const sldId = presentation.createElementNS(P_NS, original.tagName);
+    sldId.setAttribute('id', String(nextSlideId++));
+    sldId.setAttributeNS(R_NS, 'r:id', relId);
+    original.parentNode?.insertBefore(sldId, original.nextSibling);
+  }
+
+  saveXml(zip, 'ppt/presentation.xml', presentation);
+  saveXml(zip, '[Content_Types].xml', types);
+  return copies;
+};
+
+// --- INLINE MODE ---
+
+/**
+ * Insert the translated paragraph under the source one: same runs and paragraph properties,
+ * smaller and grey. Fields (slide number, date) are not repeated.
+ */
+export const appendTranslatedParagraph = (paragraph: Element, runTexts: string[]) => {
+  const doc = paragraph.ownerDocument;
+  const clone = paragraph.cloneNode(true) as Element;
+  Array.from(clone.children).filter(el => el.localName === 'fld').forEach(el => clone.removeChild(el));
+
+  const runs = Array.from(clone.children).filter(el =>
+    el.localName === 'r' && el.getElementsByTagNameNS(A_NS, 't').length > 0
+  );
+  runs.forEach((run, idx) => { run.getElementsByTagNameNS(A_NS, 't')[0].textContent = runTexts[idx] ?? ''; });
+
+  // Base size for runs without a:rPr sz: the largest explicit size in the paragraph
+  const sizes = Array.from(clone.children)
+    .map(el => el.localName === 'endParaRPr' ? el : Array.from(el.children).find(c => c.localName === 'rPr'))
+    .map(rPr => parseInt(rPr?.getAttribute('sz') || '', 10))
+    .filter(size => size > 0);
+  const baseSize = sizes.length > 0 ? Math.max(...sizes) : DEFAULT_FONT_SIZE * 100;
+
+  [...runs, ...Array.from(clone.children).filter(el => el.localName === 'endParaRPr')].forEach(el => {
+    let rPr = el.localName === 'endParaRPr' ? el : Array.from(el.children).find(c => c.localName === 'rPr') || null;
+    if (!rPr) {
+      rPr = doc.createElementNS(A_NS, `${el.prefix ? el.prefix + ':' : ''}rPr`);
+      el.insertBefore(rPr, el.firstChild);
+    }
+    const size = parseInt(rPr.getAttribute('sz') || '', 10) || baseSize;
+    rPr.setAttribute('sz', String(Math.max(600, Math.round(size * TRANSLATION_SCALE / 100) * 100)));
+
+    // Replace the fill: a:rPr children start with a:ln, then the fill
+    Array.from(rPr.children)
+      .filter(c => ['noFill', 'solidFill', 'gradFill', 'blipFill', 'pattFill', 'grpFill'].includes(c.localName))
+      .forEach(c => rPr!.removeChild(c));
+    const prefix = rPr.prefix ? rPr.prefix + ':' : '';
+    const fill = doc.createElementNS(A_NS, `${prefix}solidFill`);
+    const color = doc.createElementNS(A_NS, `${prefix}srgbClr`);
+    color.setAttribute('val', TRANSLATION_COLOR);
+    fill.appendChild(color);
+    const line = Array.from(rPr.children).find(c => c.localName === 'ln');
+    rPr.insertBefore(fill, line ? line.nextSibling : rPr.firstChild);
+  });
+
+  paragraph.parentNode?.insertBefore(clone, paragraph.nextSibling);
+};
+
+// --- NOTES MODE ---
+
+const NOTES_MASTER_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<p:notesMaster xmlns:a="${A_NS}" xmlns:r="${R_NS}" xmlns:p="${P_NS}"><p:cSld><p:spTree><p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr><p:grpSpPr/><p:sp><p:nvSpPr><p:cNvPr id="2" name="Notes Placeholder 1"/><p:cNvSpPr><a:spLocks noGrp="1"/></p:cNvSpPr><p:nvPr><p:ph type="body" sz="quarter" idx="1"/></p:nvPr></p:nvSpPr><p:spPr><a:xfrm><a:off x="685800" y="4400550"/><a:ext cx="5486400" cy="3600450"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr><p:txBody><a:bodyPr/><a:lstStyle/><a:p><a:endParaRPr lang="en-US"/></a:p></p:txBody></p:sp></p:spTree></p:cSld><p:clrMap bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"/></p:notesMaster>`;
+
+const NOTES_SLIDE_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<p:notes xmlns:a="${A_NS}" xmlns:r="${R_NS}" xmlns:p="${P_NS}"><p:cSld><p:spTree><p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr><p:grpSpPr/><p:sp><p:nvSpPr><p:cNvPr id="2" name="Slide Image Placeholder 1"/><p:cNvSpPr><a:spLocks noGrp="1" noRot="1" noChangeAspect="1"/></p:cNvSpPr><p:nvPr><p:ph type="sldImg"/></p:nvPr></p:nvSpPr><p:spPr/></p:sp><p:sp><p:nvSpPr><p:cNvPr id="3" name="Notes Placeholder 2"/><p:cNvSpPr><a:spLocks noGrp="1"/></p:cNvSpPr><p:nvPr><p:ph type="body" idx="1"/></p:nvPr></p:nvSpPr><p:spPr/><p:txBody><a:bodyPr/><a:lstStyle/></p:txBody></p:sp></p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:notes>`;
+
+/**
+ * Notes slides need a notes master: reuse the deck's one or create a minimal one
+ */
+const ensureNotesMaster = async (zip: JSZip): Promise<string> => {
+  const presentationRels = await loadRels(zip, 'ppt/presentation.xml');
+  const existing = Array.from(presentationRels.getElementsByTagNameNS(REL_NS, 'Relationship'))
+    .find(rel => (rel.getAttribute('Type') || '').endsWith('/notesMaster'));
+  if (existing) return `ppt/${(existing.getAttribute('Target') || '').replace(/^\//, '').replace(/^ppt\//, '')}`;
+
+  const reserved = new Set<string>();
+  const types = (await loadXml(zip, '[Content_Types].xml'))!;
+  const masterPath = nextPartPath(zip, 'ppt/notesMasters/notesMaster', '.xml', reserved);
+  zip.file(masterPath, NOTES_MASTER_XML);
+  addContentTypeOverride(types, masterPath, `${CONTENT_TYPE}.presentationml.notesMaster+xml`);
+
+  // A master needs its own theme part: copy the deck's first theme
+  const theme = Object.keys(zip.files).find(path => /^ppt\/theme\/theme\d+\.xml$/.test(path));
+  if (theme) {
+    const themePath = nextPartPath(zip, 'ppt/theme/theme', '.xml', reserved);
+    zip.file(themePath, await zip.file(theme)!.async('string'));
+    addContentTypeOverride(types, themePath, `${CONTENT_TYPE}.theme+xml`);
+    await addRelationship(zip, masterPath, 'theme', `../theme/${fileNameOf(themePath)}`);
+  }
+  saveXml(zip, '[Content_Types].xml', types);
+
+  const relId = await addRelationship(zip, 'ppt/presentation.xml', 'notesMaster', masterPath.replace(/^ppt\//, ''));
+  const presentation = (await loadXml(zip, 'ppt/presentation.xml'))!;
+  const root = presentation.documentElement;
+  const prefix = root.prefix ? root.prefix + ':' : '';
+  const list = presentation.createElementNS(P_NS, `${prefix}notesMasterIdLst`);
+  const id = presentation.createElementNS(P_NS, `${prefix}notesMasterId`);
+  id.setAttributeNS(R_NS, 'r:id', relId);
+  list.appendChild(id);
+  // Schema order: sldMasterIdLst, notesMasterIdLst, handoutMasterIdLst, sldIdLst, ...
+  const sldMasterIdLst = Array.from(root.children).find(el => el.localName === 'sldMasterIdLst');
+  root.insertBefore(list, sldMasterIdLst ? sldMasterIdLst.nextSibling : root.firstChild);
+  saveXml(zip, 'ppt/presentation.xml', presentation);
+  return masterPath;
+};
+
+/**
+ * Append the source text of a slide to its speaker notes (creating the notes page if needed)
+ */
+export const addSourceTextToNotes = async (zip: JSZip, slidePath: string, sourceParagraphs: string[]) => {
+  if (sourceParagraphs.length === 0) return;
+  const slideRels = await loadRels(zip, slidePath);
+  const notesRel = Array.from(slideRels.getElementsByTagNameNS(REL_NS, 'Relationship'))
+    .find(rel => (rel.getAttribute('Type') || '').endsWith('/notesSlide'));
+
+  let notesPath: string;
+  if (notesRel) {
+    notesPath = `ppt/${(notesRel.getAttribute('Target') || '').replace(/^(\.\.\/)+/, '')}`;
+  } else {
+    const masterPath = await ensureNotesMaster(zip);
+    notesPath = nextPartPath(zip, 'ppt/notesSlides/notesSlide', '.xml', new Set());
+    zip.file(notesPath, NOTES_SLIDE_XML);
+    await addRelationship(zip, notesPath, 'notesMaster', `../notesMasters/${fileNameOf(masterPath)}`);
+    await addRelationship(zip, notesPath, 'slide', `../slides/${fileNameOf(slidePath)}`);
+    await addRelationship(zip, slidePath, 'notesSlide', `../notesSlides/${fileNameOf(notesPath)}`);
+    const types = (await loadXml(zip, '[Content_Types].xml'))!;
+    addContentTypeOverride(types, notesPath, `${CONTENT_TYPE}.presentationml.notesSlide+xml`);
+    saveXml(zip, '[Content_Types].xml', types);
+  }
+
+  const notes = await loadXml(zip, notesPath);
+  const body = notes && Array.from(notes.getElementsByTagNameNS(P_NS, 'ph'))
+    .find(ph => ph.getAttribute('type') === 'body');
+  let shape: Element | null = body || null;
+  while (shape && shape.localName !== 'sp') shape = shape.parentElement;
+  const txBody = shape && Array.from(shape.children).find(el => el.localName === 'txBody');
+  if (!notes || !txBody) return;
+
+  const addParagraph = (text: string, bold: boolean) => {
+    const p = notes.createElementNS(A_NS, 'a:p');
+    const r = notes.createElementNS(A_NS, 'a:r');
+    const rPr = notes.createElementNS(A_NS, 'a:rPr');
+    rPr.setAttribute('lang', 'en-US');
+    if (bold) rPr.setAttribute('b', '1');
+    const t = notes.createElementNS(A_NS, 'a:t');
+    t.textContent = text;
+    r.appendChild(rPr);
+    r.appendChild(t);
+    p.appendChild(r);
+    txBody.appendChild(p);
+  };
+  addParagraph('Source text:', true);
+  sourceParagraphs.forEach(text => addParagraph(text, false));
+  saveXml(zip, notesPath, notes);
+};
+
@@ -0,0 +1,176 @@
+/**
+ * PPTX Overflow - post-translation layout pass.
+ *
+ * Translations are often much longer than the source (Japanese → Vietnamese/English
+ * is typically 1.5–2x), so text no longer fits its shape. The real layout is done by
+ * PowerPoint, so text height is estimated from character count, font size and the
+ * shape extents (a:xfrm/a:ext) minus insets, then one strategy is applied:
+ *   - autofit: set <a:normAutofit fontScale=".."/> so PowerPoint shrinks the text
+ *   - shrink:  rewrite run sizes (a:rPr sz) down to a minimum font size
+ *   - report:  leave the slide as-is and only list the overflowing shapes
+ */
+
+const A_NS = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const P_NS = 'http://schemas.openxmlformats.org/presentationml/2006/main';
+
+export type PptxOverflowStrategy = 'autofit' | 'shrink' | 'report';
+
+export interface PptxOverflowIssue {
+  shapeName: string;
+  ratio: number; // Estimated text height / available height
+  resolved: boolean;
+}
+
+const EMU_PER_POINT = 12700;
+const DEFAULT_FONT_SIZE = 18;
+const TITLE_FONT_SIZE = 44;
+const LINE_HEIGHT = 1.2;
+// Tolerance for the estimate: only act when clearly overflowing
+const OVERFLOW_THRESHOLD = 1.05;
+
+// Full-width characters (CJK, Hangul, full-width forms) take about 1em, others about 0.5em
+const isWideChar = (char: string): boolean =>
+  /[\u1100-\u115F\u2E80-\uA4CF\uAC00-\uD7A3\uF900-\uFAFF\uFE30-\uFE4F\uFF00-\uFF60\uFFE0-\uFFE6]/.test(char);
+
+const textWidthInEm = (text: string): number => {
+  let width = 0;
+  for (const char of text) width += isWideChar(char) ? 1 : 0.5;
+  return width;
+};
+
+const childNS = (parent: Element | null | undefined, ns: string, localName: string): Element | null =>
+  parent ? Array.from(parent.children).find(el => el.namespaceURI === ns && el.localName === localName) || null : null;
+
+const getEmuAttr = (el: Element | null, name: string, fallback: number): number => {
+  const value = el?.getAttribute(name);
+  return value ? parseInt(value, 10) : fallback;
+};
+
+/**
+ * Base font size of a shape when runs do not set one (placeholders inherit from layout/master)
+ */
+const getDefaultFontSize = (shape: Element, txBody: Element): number => {
+  const lvl1 = childNS(childNS(txBody, A_NS, 'lstStyle'), A_NS, 'lvl1pPr');
+  const lstStyleSize = childNS(lvl1, A_NS, 'defRPr')?.getAttribute('sz');
+  if (lstStyleSize) return parseInt(lstStyleSize, 10) / 100;
+
+  const placeholder = shape.getElementsByTagNameNS(P_NS, 'ph')[0];
+  const placeholderType = placeholder?.getAttribute('type');
+  return placeholderType === 'title' || placeholderType === 'ctrTitle' ? TITLE_FONT_SIZE : DEFAULT_FONT_SIZE;
+};
+
+/**
+ * Estimate the height (pt) of the text body at a given scale
+ */
+const estimateTextHeight = (txBody: Element, defaultSize: number, availableWidth: number, scale: number): number => {
+  let height = 0;
+  Array.from(txBody.getElementsByTagNameNS(A_NS, 'p')).forEach(paragraph => {
+    let maxSize = 0;
+    let lines = 0;
+    let lineWidth = 0;
+
+    const flushLine = () => {
+      lines += Math.max(1, Math.ceil(lineWidth / availableWidth));
+      lineWidth = 0;
+    };
+
+    Array.from(paragraph.children).forEach(child => {
+      if (child.localName === 'br') {
+        flushLine();
+        return;
+      }
+      if (child.localName !== 'r' && child.localName !== 'fld') return;
+      const size = (parseInt(childNS(child, A_NS, 'rPr')?.getAttribute('sz') || '', 10) / 100 || defaultSize) * scale;
+      maxSize = Math.max(maxSize, size);
+      lineWidth += textWidthInEm(childNS(child, A_NS, 't')?.textContent || '') * size;
+    });
+    flushLine();
+
+    if (maxSize === 0) {
+      maxSize = (parseInt(childNS(paragraph, A_NS, 'endParaRPr')?.getAttribute('sz') || '', 10) / 100 || defaultSize) * scale;
+    }
+    height += lines * maxSize * LINE_HEIGHT;
+  });
+  return height;
+};
+
+/**
+ * Run the overflow pass on one slide document. Returns the shapes that overflow;
+ * `resolved` is false when the minimum font size was reached or strategy is 'report'.
+ */
+export const fitTranslatedText = (
+  doc: Document,
+  strategy: PptxOverflowStrategy,
+  minFontSize: number = 10
+): PptxOverflowIssue[] => {
+  const issues: PptxOverflowIssue[] = [];
+
+  Array.from(doc.getElementsByTagNameNS(P_NS, 'sp')).forEach(shape => {
+    const txBody = childNS(shape, P_NS, 'txBody');
+    const bodyPr = childNS(txBody, A_NS, 'bodyPr');
+    const ext = childNS(childNS(childNS(shape, P_NS, 'spPr'), A_NS, 'xfrm'), A_NS, 'ext');
+    if (!txBody || !bodyPr || !ext) return; // Placeholder geometry inherited from the layout: cannot estimate
+    if (bodyPr.getAttribute('wrap') === 'none' || (bodyPr.getAttribute('vert') || 'horz') !== 'horz') return;
+    if (childNS(bodyPr, A_NS, 'spAutoFit')) return; // Shape grows with its text
+
+    const availableWidth = (getEmuAttr(ext, 'cx', 0) - getEmuAttr(bodyPr, 'lIns', 91440) - getEmuAttr(bodyPr, 'rIns', 91440)) / EMU_PER_POINT;
+    const availableHeight = (getEmuAttr(ext, 'cy', 0) - getEmuAttr(bodyPr, 'tIns', 45720) - getEmuAttr(bodyPr, 'bIns', 45720)) / EMU_PER_POINT;
+    if (availableWidth <= 0 || availableHeight <= 0) return;
+
+    const defaultSize = getDefaultFontSize(shape, txBody);
+    const existingAutofit = childNS(bodyPr, A_NS, 'normAutofit');
+    const currentScale = parseInt(existingAutofit?.getAttribute('fontScale') || '100000', 10) / 100000;
+
+    const ratio = estimateTextHeight(txBody, defaultSize, availableWidth, currentScale) / availableHeight;
+    if (ratio <= OVERFLOW_THRESHOLD) return;
+
+    const shapeName = shape.getElementsByTagNameNS(P_NS, 'cNvPr')[0]?.getAttribute('name') || 'Text box';
+    if (strategy === 'report') {
+      issues.push({ shapeName, ratio, resolved: false });
+      return;
+    }
+
+    // Font size and line count both shrink with the scale, so height shrinks with its square
+    const sizes = Array.from(txBody.getElementsByTagNameNS(A_NS, 'rPr'))
+      .map(rPr => parseInt(rPr.getAttribute('sz') || '', 10) / 100 || defaultSize);
+    const largestSize = Math.max(defaultSize, ...sizes) * currentScale;
+    const minScale = Math.min(1, minFontSize / largestSize);
+    let scale = Math.max(minScale, Math.floor(Math.sqrt(1 / ratio) * 40) / 40);
+    while (scale > minScale && estimateTextHeight(txBody, defaultSize, availableWidth, currentScale * scale) > availableHeight) {
+      scale = Math.max(minScale, scale - 0.025);
+    }
+    const resolved = estimateTextHeight(txBody, defaultSize, availableWidth, currentScale * scale) <= availableHeight * OVERFLOW_THRESHOLD;
+
+    if (strategy === 'autofit') {
+      ['noAutofit', 'normAutofit'].forEach(name => {
+        const existing = childNS(bodyPr, A_NS, name);
+        if (existing) bodyPr.removeChild(existing);
+      });
+      const autofit = doc.createElementNS(A_NS, `${bodyPr.prefix ? bodyPr.prefix + ':' : ''}normAutofit`);
+      autofit.setAttribute('fontScale', String(Math.round(currentScale * scale * 1000) * 100));
+      if (scale < 0.9) autofit.setAttribute('lnSpcReduction', scale < 0.75 ? '20000' : '10000');
+      // Schema order: a:prstTxWarp, autofit, then a:scene3d / a:sp3d / a:flatTx / a:extLst
+      const warp = childNS(bodyPr, A_NS, 'prstTxWarp');
+      bodyPr.insertBefore(autofit, warp ? warp.nextSibling : bodyPr.firstChild);
+    } else {
+      Array.from(txBody.getElementsByTagNameNS(A_NS, 'p')).forEach(paragraph => {
+        Array.from(paragraph.children).forEach(child => {
+          if (child.localName !== 'r' && child.localName !== 'fld' && child.localName !== 'endParaRPr') return;
+          let rPr = child.localName === 'endParaRPr' ? child : childNS(child, A_NS, 'rPr');
+          if (!rPr) {
+            // Runs without a:rPr inherit their size: write it explicitly (a:rPr is the first child)
+            rPr = doc.createElementNS(A_NS, `${child.prefix ? child.prefix + ':' : ''}rPr`);
+            child.insertBefore(rPr, child.firstChild);
+          }
+          const size = parseInt(rPr.getAttribute('sz') || '', 10) / 100 || defaultSize;
+          // Never enlarge text that was already below the minimum
+          rPr.setAttribute('sz', String(Math.round(Math.max(Math.min(size, minFontSize), size * scale)) * 100));
+        });
+      });
+    }
+
+    issues.push({ shapeName, ratio, resolved });
+  });
+
+  return issues;
+};
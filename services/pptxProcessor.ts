@@ -1,9 +1,62 @@
 import JSZip from 'jszip';
-import { translateBatchStrings, translateImageContent } from './geminiService';
-import { SupportedLanguage, GlossaryItem } from '../types';
+import { translateBatchStrings, translateImageContent, detectLanguage } from './geminiService';
+import { SupportedLanguage, GlossaryItem, BlacklistItem, PptxImageCandidate } from '../types';
+import { encodeRunSegments, decodeRunSegments } from './runSegments';
+import { fitTranslatedText, PptxOverflowStrategy } from './pptxOverflow';
+import { resolvePptxParts, getOrderedSlidePaths, PptxPartSelection } from './pptxSlides';
+import { PptxBilingualMode, duplicateSlidesForTranslation, appendTranslatedParagraph, addSourceTextToNotes } from './pptxBilingual';
+
+const A_NS = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const C_NS = 'http://schemas.openxmlformats.org/drawingml/2006/chart';
+const P_NS = 'http://schemas.openxmlformats.org/presentationml/2006/main';
+const SLIDE_PATH = /^ppt\/slides\/slide\d+\.xml$/;
+
+/**
+ * Các phần text phụ (mặc định không dịch)
+ */
+export interface PptxExtraTextOptions {
+  altText?: boolean;   // descr / title của p:cNvPr (mô tả hình cho trình đọc màn hình)
+  comments?: boolean;  // ppt/comments/*.xml (comment cũ và modern comment)
+  tooltips?: boolean;  // tooltip của a:hlinkClick / a:hlinkHover
+}
+
+/**
+ * Chọn ảnh cần dịch và chế độ duyệt ảnh
+ */
+export interface PptxImageOptions {
+  paths?: string[];  // Chỉ dịch các ảnh này trong ppt/media (mặc định: tất cả PNG/JPEG)
+  review?: boolean;  // Trả về ảnh đã dịch để người dùng duyệt thay vì ghi thẳng vào file
+}
+
+/**
+ * Tuỳ chọn xử lý PPTX (bỏ trống = giá trị mặc định)
+ */
+export interface PptxProcessOptions {
+  translateImages?: boolean;                // Mặc định bật dịch ảnh
+  overflowStrategy?: PptxOverflowStrategy;  // Mặc định 'autofit'
+  minFontSize?: number;                     // Cỡ chữ nhỏ nhất khi co chữ (mặc định 10)
+  selection?: PptxPartSelection;            // Bỏ trống: dịch toàn bộ file
+  skipAlreadyTranslated?: boolean;          // Mặc định bật
+  sourceLang?: string;                      // Mặc định 'auto'
+  blacklist?: BlacklistItem[];
+  extraText?: PptxExtraTextOptions;
+  imageOptions?: PptxImageOptions;
+  bilingualMode?: PptxBilingualMode;        // Mặc định 'replace'
+}
 
 /**
- * Xử lý file PPTX: Dịch text (bao gồm Table) và dịch Ảnh.
+ * Xử lý file PPTX: Dịch text (bao gồm Table, Chart, SmartArt) và dịch Ảnh.
+ * Lưu ý: chỉ cache trong chart*.xml được dịch, workbook nhúng (ppt/embeddings) giữ nguyên.
+ * Sau khi dịch, text dài hơn khung được xử lý theo overflowStrategy (xem pptxOverflow.ts)
+ * và các slide bị tràn được trả về trong warnings.
+ * Nếu có selection, chỉ dịch các slide được chọn (kèm chart, SmartArt, ảnh của chúng),
+ * notes / masters / layouts theo lựa chọn; các phần khác giữ nguyên.
+ * Smart mode (skipAlreadyTranslated): bỏ qua đoạn văn đã ở ngôn ngữ đích.
+ * extraText bật thêm alt text, comment và tooltip của hyperlink.
+ * Với imageOptions.review, ảnh đã dịch được trả về trong imageCandidates; file chỉ
+ * được cập nhật sau khi duyệt bằng applyPptxImageReplacements.
+ * bilingualMode giữ lại text gốc: nhân bản slide, thêm bản dịch dưới đoạn gốc,
+ * hoặc đưa text gốc vào speaker notes (xem pptxBilingual.ts).
  */
 export const processPptx = async (
   file: File,
@@ -11,70 +64,201 @@ export const processPptx = async (
   context: string,
   glossary: GlossaryItem[],
   onProgress: (msg: string, percent: number) => void,
-  isTranslateImages: boolean = true // Mặc định bật dịch ảnh
-): Promise<Blob> => {
+  options: PptxProcessOptions = {}
+): Promise<{ blob: Blob, warnings: string[], imageCandidates: PptxImageCandidate[] }> => {
+  const {
+    translateImages: isTranslateImages = true,
+    overflowStrategy = 'autofit',
+    minFontSize = 10,
+    selection,
+    skipAlreadyTranslated = true,
+    sourceLang = 'auto',
+    blacklist = [],
+    extraText = {},
+    imageOptions = {},
+    bilingualMode = 'replace'
+  } = options;
   onProgress('Unzipping PowerPoint...', 5);
   const zip = new JSZip();
   const content = await file.arrayBuffer();
   const loadedZip = await zip.loadAsync(content);
+  const selectedParts = selection ? await resolvePptxParts(loadedZip, selection) : null;
 
-  // Danh sách các file XML có thể chứa text (Slides, Notes, Masters, Layouts)
+  // Song ngữ kiểu duplicate: nhân bản slide ngay sau bản gốc, chỉ dịch bản sao
+  let copies = new Map<string, string>();
+  if (bilingualMode === 'duplicate') {
+    onProgress('Duplicating slides for bilingual output...', 8);
+    const slidePaths = (await getOrderedSlidePaths(loadedZip))
+      .filter((_, idx) => !selection || selection.slides.includes(idx + 1));
+    copies = await duplicateSlidesForTranslation(loadedZip, slidePaths, path =>
+      isTranslateImages && (!imageOptions.paths || imageOptions.paths.includes(path))
+    );
+  }
+  const copyOf = new Map(Array.from(copies, ([original, copy]) => [copy, original]));
+  const isSelected = (path: string) => {
+    if (copies.has(path)) return false; // Bản gốc đã được nhân bản: giữ nguyên ngôn ngữ nguồn
+    // Master/layout dùng chung cho bản gốc và bản sao: dịch sẽ làm bản gốc hiện text đã dịch
+    if (bilingualMode === 'duplicate' && /^ppt\/slide(Masters|Layouts)\//.test(path)) return false;
+    const source = copyOf.get(path) ?? path;
+    return !selectedParts || selectedParts.has(source);
+  };
+
+  // Danh sách các file XML có thể chứa text (Slides, Notes, Masters, Layouts, Charts, SmartArt)
   const xmlFiles = Object.keys(loadedZip.files).filter(path => 
     (path.startsWith('ppt/slides/slide') || 
      path.startsWith('ppt/notesSlides/notesSlide') ||
      path.startsWith('ppt/slideMasters/slideMaster') ||
-     path.startsWith('ppt/slideLayouts/slideLayout')) && 
-    path.endsWith('.xml')
+     path.startsWith('ppt/slideLayouts/slideLayout') ||
+     path.startsWith('ppt/charts/chart') ||
+     path.startsWith('ppt/diagrams/data') ||
+     path.startsWith('ppt/diagrams/drawing') ||
+     (extraText.comments && path.startsWith('ppt/comments/'))) && 
+    path.endsWith('.xml') && isSelected(path)
   );
 
-  onProgress(`Scanning ${xmlFiles.length} files for text and tables...`, 15);
+  onProgress(`Scanning ${xmlFiles.length} files for paragraphs and tables...`, 15);
 
   const parser = new DOMParser();
   const serializer = new XMLSerializer();
 
-  interface TextNodeRef {
+  interface ParagraphRef {
     filePath: string;
-    element: Element;
+    textElements: Element[]; // <a:t> của từng run, hoặc <c:v> của biểu đồ
     text: string;
+    attribute?: string; // Dịch thuộc tính (descr, title, tooltip) của textElements[0] thay vì nội dung
+    paragraph?: Element; // <a:p> chứa các run (dùng cho chế độ song ngữ inline)
   }
-  const textNodes: TextNodeRef[] = [];
+  const paragraphs: ParagraphRef[] = [];
+  const docs = new Map<string, Document>();
+  const warnings: string[] = [];
+  const imageCandidates: PptxImageCandidate[] = [];
+  const sourceTexts = new Map<string, string[]>(); // Text gốc theo slide (chế độ notes)
+  const targetLangCode = targetLang.toLowerCase().substring(0, 2);
+  // Smart mode: đoạn đã ở ngôn ngữ đích thì không gửi đi dịch (tiết kiệm token)
+  const isAlreadyTranslated = (text: string) => skipAlreadyTranslated && detectLanguage(text) === targetLangCode;
 
-  // 1. Thu thập tất cả node text (<a:t>)
+  // 1. Thu thập theo đoạn văn (<a:p>): câu bị tách thành nhiều run (in đậm, đổi màu)
+  //    được dịch nguyên câu, ranh giới run được đánh dấu bằng thẻ <rN>
   for (const path of xmlFiles) {
     const xml = await loadedZip.file(path)?.async('string');
     if (!xml) continue;
     const doc = parser.parseFromString(xml, 'application/xml');
-    
-    // Sử dụng namespace-agnostic query để bắt mọi thẻ 't' (a:t, p:t, v:t...)
-    const elements = Array.from(doc.getElementsByTagNameNS('*', 't'));
-    elements.forEach(el => {
-      const val = el.textContent?.trim();
-      if (val) {
-        textNodes.push({ filePath: path, element: el, text: val });
+    docs.set(path, doc);
+
+    Array.from(doc.getElementsByTagNameNS(A_NS, 'p')).forEach(p => {
+      // Chỉ lấy run <a:r> có text (bỏ qua field như số trang <a:fld>)
+      const runs = Array.from(p.children).filter(el =>
+        el.localName === 'r' && el.getElementsByTagNameNS(A_NS, 't').length > 0
+      );
+      if (runs.length === 0) return;
+
+      const textElements = runs.map(r => r.getElementsByTagNameNS(A_NS, 't')[0]);
+      const runTexts = textElements.map(t => t.textContent || '');
+      if (runTexts.join('').trim().length === 0) return;
+      if (isAlreadyTranslated(runTexts.join(''))) return;
+
+      paragraphs.push({ filePath: path, textElements, text: encodeRunSegments(runTexts), paragraph: p });
+      if (bilingualMode === 'notes' && SLIDE_PATH.test(path)) {
+        sourceTexts.set(path, [...(sourceTexts.get(path) || []), runTexts.join('')]);
       }
     });
+
+    // Biểu đồ: tên series và nhãn category nằm trong cache chuỗi (<c:strCache>, <c:strLit>)
+    Array.from(doc.getElementsByTagNameNS(C_NS, 'v')).forEach(v => {
+      const container = v.parentElement?.parentElement;
+      if (!container || (container.localName !== 'strCache' && container.localName !== 'strLit')) return;
+      const val = v.textContent || '';
+      if (!/\p{L}/u.test(val)) return;
+      if (isAlreadyTranslated(val)) return;
+      paragraphs.push({ filePath: path, textElements: [v], text: val });
+    });
+
+    // Comment kiểu cũ: <p:cm><p:text> (modern comment dùng <a:p> nên đã được lấy ở trên)
+    if (extraText.comments) {
+      Array.from(doc.getElementsByTagNameNS(P_NS, 'text')).forEach(textEl => {
+        const val = textEl.textContent || '';
+        if (!/\p{L}/u.test(val) || isAlreadyTranslated(val)) return;
+        paragraphs.push({ filePath: path, textElements: [textEl], text: val });
+      });
+    }
+
+    // Thuộc tính: alt text của hình/shape và tooltip của hyperlink
+    const attributeTargets: Array<[Element[], string[]]> = [];
+    if (extraText.altText) {
+      attributeTargets.push([Array.from(doc.getElementsByTagNameNS(P_NS, 'cNvPr')), ['descr', 'title']]);
+    }
+    if (extraText.tooltips) {
+      attributeTargets.push([[
+        ...Array.from(doc.getElementsByTagNameNS(A_NS, 'hlinkClick')),
+        ...Array.from(doc.getElementsByTagNameNS(A_NS, 'hlinkHover'))
+      ], ['tooltip']]);
+    }
+    attributeTargets.forEach(([elements, attributes]) => {
+      elements.forEach(el => attributes.forEach(attribute => {
+        const val = el.getAttribute(attribute) || '';
+        if (!/\p{L}/u.test(val) || isAlreadyTranslated(val)) return;
+        paragraphs.push({ filePath: path, textElements: [el], text: val, attribute });
+      }));
+    });
   }
 
   // 2. Dịch Text theo Batch
-  if (textNodes.length > 0) {
+  if (paragraphs.length > 0) {
     const BATCH_SIZE = 50;
-    for (let i = 0; i < textNodes.length; i += BATCH_SIZE) {
-      const chunk = textNodes.slice(i, i + BATCH_SIZE);
-      onProgress(`Translating text ${i + 1}/${textNodes.length}...`, 20 + Math.floor((i / textNodes.length) * 50));
+    for (let i = 0; i < paragraphs.length; i += BATCH_SIZE) {
+      const chunk = paragraphs.slice(i, i + BATCH_SIZE);
+      onProgress(`Translating paragraph ${i + 1}/${paragraphs.length}...`, 20 + Math.floor((i / paragraphs.length) * 50));
       
-      const translated = await translateBatchStrings(chunk.map(n => n.text), targetLang, context, glossary);
-      chunk.forEach((node, idx) => {
-        if (translated[idx]) node.element.textContent = translated[idx];
+      const translated = await translateBatchStrings(chunk.map(p => p.text), targetLang, context, glossary, sourceLang, blacklist);
+      chunk.forEach((paragraph, idx) => {
+        if (!translated[idx]) return;
+        if (paragraph.attribute) {
+          paragraph.textElements[0].setAttribute(paragraph.attribute, translated[idx]);
+          return;
+        }
+        // Trả text đã dịch về đúng run để giữ định dạng ký tự
+        const runTexts = decodeRunSegments(translated[idx], paragraph.textElements.length);
+        if (bilingualMode === 'inline' && paragraph.paragraph && SLIDE_PATH.test(paragraph.filePath)) {
+          appendTranslatedParagraph(paragraph.paragraph, runTexts);
+          return;
+        }
+        paragraph.textElements.forEach((el, runIdx) => {
+          el.textContent = runTexts[runIdx];
+        });
       });
     }
 
+    // Kiểm tra tràn khung trên các slide đã dịch
+    const uniquePaths = Array.from(new Set(paragraphs.map(p => p.filePath)));
+    onProgress('Checking text boxes for overflow...', 72);
+    const textPaths = new Set(paragraphs.filter(p => !p.attribute).map(p => p.filePath));
+    uniquePaths.filter(path => textPaths.has(path) && SLIDE_PATH.test(path)).forEach(path => {
+      const doc = docs.get(path);
+      if (!doc) return;
+      const slideNumber = path.match(/slide(\d+)\.xml$/)?.[1];
+      fitTranslatedText(doc, overflowStrategy, minFontSize).forEach(issue => {
+        const overflow = `"${issue.shapeName}" text is ~${Math.round(issue.ratio * 100)}% of its box`;
+        if (overflowStrategy === 'report') {
+          warnings.push(`Slide ${slideNumber}: ${overflow}.`);
+        } else if (!issue.resolved) {
+          warnings.push(`Slide ${slideNumber}: ${overflow}, still overflowing at ${minFontSize}pt.`);
+        }
+      });
+    });
+
     // Cập nhật XML vào Zip
-    const uniquePaths = Array.from(new Set(textNodes.map(n => n.filePath)));
     for (const path of uniquePaths) {
-      const firstNode = textNodes.find(n => n.filePath === path);
-      if (firstNode) {
-        const updatedXml = serializer.serializeToString(firstNode.element.ownerDocument!);
-        loadedZip.file(path, updatedXml);
+      const doc = docs.get(path);
+      if (doc) {
+        loadedZip.file(path, serializer.serializeToString(doc));
+      }
+    }
+
+    // Song ngữ kiểu notes: text gốc được thêm vào speaker notes của slide đã dịch
+    if (bilingualMode === 'notes') {
+      onProgress('Adding source text to speaker notes...', 74);
+      for (const [path, texts] of sourceTexts) {
+        await addSourceTextToNotes(loadedZip, path, texts);
       }
     }
   }
@@ -82,7 +266,8 @@ export const processPptx = async (
   // 3. Dịch Hình ảnh (Media)
   if (isTranslateImages) {
     const mediaFiles = Object.keys(loadedZip.files).filter(path => 
-      path.startsWith('ppt/media/') && /\.(png|jpe?g)$/i.test(path)
+      path.startsWith('ppt/media/') && /\.(png|jpe?g)$/i.test(path) && isSelected(path) &&
+      (!imageOptions.paths || imageOptions.paths.includes(copyOf.get(path) ?? path))
     );
 
     if (mediaFiles.length > 0) {
@@ -96,7 +281,9 @@ export const processPptx = async (
           if (imgBase64) {
             const mime = path.endsWith('.png') ? 'image/png' : 'image/jpeg';
             const translatedImg = await translateImageContent(imgBase64, mime, targetLang, context);
-            if (translatedImg) {
+            if (translatedImg && imageOptions.review) {
+              imageCandidates.push({ path, mimeType: mime, original: imgBase64, translated: translatedImg, accepted: true });
+            } else if (translatedImg) {
               loadedZip.file(path, translatedImg, { base64: true });
             }
           }
@@ -110,5 +297,14 @@ export const processPptx = async (
   onProgress('Finalizing PowerPoint...', 98);
   const blob = await loadedZip.generateAsync({ type: 'blob' });
   onProgress('Done', 100);
-  return blob;
+  return { blob, warnings, imageCandidates };
+};
+
+/**
+ * Ghi các ảnh đã được chấp nhận vào file PPTX đã dịch
+ */
+export const applyPptxImageReplacements = async (pptxBlob: Blob, candidates: PptxImageCandidate[]): Promise<Blob> => {
+  const zip = await JSZip.loadAsync(await pptxBlob.arrayBuffer());
+  candidates.filter(c => c.accepted).forEach(c => zip.file(c.path, c.translated, { base64: true }));
+  return zip.generateAsync({ type: 'blob' });
 };
\ No newline at end of file
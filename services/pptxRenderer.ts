@@ -0,0 +1,472 @@
+/**
+ * PPTX Renderer - client-side slide preview.
+ *
+ * Draws each slide as absolutely positioned HTML: text frames, tables, pictures and basic
+ * shapes (rectangles, rounded rectangles, ellipses) with theme colors, plus the non-placeholder
+ * shapes of the layout and master. Positions are percentages of the slide and font sizes are
+ * container query units (cqw), so a slide scales with its container. Text boxes keep
+ * overflow visible, which makes translated text that no longer fits easy to spot.
+ */
+
+import JSZip from 'jszip';
+import { readRelationships } from './opcPackage';
+import { getOrderedSlidePaths } from './pptxSlides';
+
+const A_NS = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const P_NS = 'http://schemas.openxmlformats.org/presentationml/2006/main';
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+const EMU_PER_POINT = 12700;
+const PX_PER_POINT = 96 / 72;
+const DEFAULT_FONT_SIZE = 18;
+const TITLE_FONT_SIZE = 44;
+
+export interface PptxSlideRender {
+  number: number;
+  html: string;
+  aspectRatio: number; // width / height
+}
+
+interface Box {
+  x: number;
+  y: number;
+  cx: number;
+  cy: number;
+  rot: number; // degrees
+}
+
+type Transform = (box: Box) => Box;
+
+interface PartContext {
+  zip: JSZip;
+  rels: Map<string, string>;
+}
+
+interface DeckContext {
+  slideWidth: number;
+  slideHeight: number;
+  colors: Map<string, string>; // scheme name (incl. bg1/tx1 aliases) → hex
+  txStyles: Element | null;
+  images: Map<string, string>; // media path → data URL
+}
+
+// --- XML HELPERS ---
+
+const childNS = (parent: Element | null | undefined, ns: string, localName: string): Element | null =>
+  parent ? Array.from(parent.children).find(el => el.namespaceURI === ns && el.localName === localName) || null : null;
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const pct = (value: number, total: number): string => `${(value / total * 100).toFixed(3)}%`;
+
+const parseXml = async (zip: JSZip, path: string): Promise<Document | null> => {
+  const xml = await zip.file(path)?.async('string');
+  return xml ? new DOMParser().parseFromString(xml, 'application/xml') : null;
+};
+
+/**
+ * a:xfrm of a shape (spPr / grpSpPr) or p:xfrm of a graphic frame
+ */
+const readBox = (el: Element): Box | null => {
+  const props = childNS(el, P_NS, 'spPr') || childNS(el, P_NS, 'grpSpPr');
+  const xfrm = childNS(props, A_NS, 'xfrm') || childNS(el, P_NS, 'xfrm');
+  const off = childNS(xfrm, A_NS, 'off');
+  const ext = childNS(xfrm, A_NS, 'ext');
+  if (!xfrm || !off || !ext) return null;
+  const num = (node: Element, name: string) => parseInt(node.getAttribute(name) || '0', 10);
+  return { x: num(off, 'x'), y: num(off, 'y'), cx: num(ext, 'cx'), cy: num(ext, 'cy'), rot: num(xfrm, 'rot') / 60000 };
+};
+
+// --- COLORS ---
+
+const hexToRgb = (hex: string): number[] => [0, 2, 4].map(i => parseInt(hex.substring(i, i + 2), 16));
+const rgbToHex = (rgb: number[]): string =>
+  rgb.map(v => Math.round(Math.min(255, Math.max(0, v))).toString(16).padStart(2, '0')).join('');
+
+const applyLuminance = (hex: string, lumMod: number, lumOff: number): string => {
+  const [r, g, b] = hexToRgb(hex).map(v => v / 255);
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  let h = 0;
+  let s = 0;
+  let l = (max + min) / 2;
+  if (max !== min) {
+    const d = max - min;
+    s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+    h = max === r ? (g - b) / d + (g < b ? 6 : 0) : max === g ? (b - r) / d + 2 : (r - g) / d + 4;
+    h /= 6;
+  }
+  l = Math.min(1, Math.max(0, l * lumMod + lumOff));
+
+  const hueToRgb = (p: number, q: number, t: number) => {
+    if (t < 0) t += 1;
+    if (t > 1) t -= 1;
+    if (t < 1 / 6) return p + (q - p) * 6 * t;
+    if (t < 1 / 2) return q;
+    if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+    return p;
+  };
+  if (s === 0) return rgbToHex([l * 255, l * 255, l * 255]);
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  return rgbToHex([hueToRgb(p, q, h + 1 / 3), hueToRgb(p, q, h), hueToRgb(p, q, h - 1 / 3)].map(v => v * 255));
+};
+
+/**
+ * Resolve the color inside a fill/ref element (srgbClr, schemeClr, sysClr, prstClr) to #rrggbb
+ */
+const resolveColor = (container: Element | null, deck: DeckContext): string | null => {
+  const colorEl = container && Array.from(container.children).find(el => el.localName.endsWith('Clr'));
+  if (!colorEl) return null;
+
+  let hex: string | null = null;
+  if (colorEl.localName === 'srgbClr') hex = colorEl.getAttribute('val');
+  else if (colorEl.localName === 'schemeClr') hex = deck.colors.get(colorEl.getAttribute('val') || '') || null;
+  else if (colorEl.localName === 'sysClr') hex = colorEl.getAttribute('lastClr');
+  else if (colorEl.localName === 'prstClr') hex = { black: '000000', white: 'FFFFFF', red: 'FF0000', green: '00FF00', blue: '0000FF' }[colorEl.getAttribute('val') || ''] || null;
+  if (!hex || !/^[0-9a-f]{6}$/i.test(hex)) return null;
+
+  const modifier = (name: string) => {
+    const value = childNS(colorEl, A_NS, name)?.getAttribute('val');
+    return value ? parseInt(value, 10) / 100000 : null;
+  };
+  const lumMod = modifier('lumMod');
+  const lumOff = modifier('lumOff');
+  if (lumMod !== null || lumOff !== null) hex = applyLuminance(hex, lumMod ?? 1, lumOff ?? 0);
+  const shade = modifier('shade');
+  if (shade !== null) hex = rgbToHex(hexToRgb(hex).map(v => v * shade));
+  const tint = modifier('tint');
+  if (tint !== null) hex = rgbToHex(hexToRgb(hex).map(v => v + (255 - v) * (1 - tint)));
+  return `#${hex}`;
+};
+
+/**
+ * Fill of a shape: explicit spPr fill, otherwise the theme style reference (p:style/a:fillRef)
+ */
+const resolveFill = (props: Element | null, style: Element | null, deck: DeckContext): string | null => {
+  if (childNS(props, A_NS, 'noFill')) return null;
+  const solid = childNS(props, A_NS, 'solidFill');
+  if (solid) return resolveColor(solid, deck);
+  const gradientStop = childNS(childNS(props, A_NS, 'gradFill'), A_NS, 'gsLst')?.children[0];
+  if (gradientStop) return resolveColor(gradientStop, deck);
+  const fillRef = childNS(style, A_NS, 'fillRef');
+  return fillRef && fillRef.getAttribute('idx') !== '0' ? resolveColor(fillRef, deck) : null;
+};
+
+const resolveLine = (props: Element | null, style: Element | null, deck: DeckContext): string => {
+  const line = childNS(props, A_NS, 'ln');
+  if (childNS(line, A_NS, 'noFill')) return '';
+  const width = Math.max(1, parseInt(line?.getAttribute('w') || '12700', 10) / EMU_PER_POINT * PX_PER_POINT);
+  const color = resolveColor(childNS(line, A_NS, 'solidFill'), deck)
+    || (childNS(style, A_NS, 'lnRef')?.getAttribute('idx') !== '0' ? resolveColor(childNS(style, A_NS, 'lnRef'), deck) : null);
+  return color ? `border:${width.toFixed(1)}px solid ${color};` : '';
+};
+
+// --- TEXT ---
+
+/**
+ * Default run size for a paragraph level from the master text styles (title / body / other)
+ */
+const getDefaultFontSize = (deck: DeckContext, placeholderType: string | null, level: number): number => {
+  const styleName = placeholderType === 'title' || placeholderType === 'ctrTitle' ? 'titleStyle'
+    : placeholderType && placeholderType !== 'sldNum' && placeholderType !== 'dt' && placeholderType !== 'ftr' ? 'bodyStyle'
+    : 'otherStyle';
+  const levelProps = childNS(childNS(deck.txStyles, P_NS, styleName), A_NS, `lvl${level + 1}pPr`);
+  const size = childNS(levelProps, A_NS, 'defRPr')?.getAttribute('sz');
+  if (size) return parseInt(size, 10) / 100;
+  return styleName === 'titleStyle' ? TITLE_FONT_SIZE : DEFAULT_FONT_SIZE;
+};
+
+const fontSizeCss = (points: number, deck: DeckContext): string =>
+  `${(points * EMU_PER_POINT / deck.slideWidth * 100).toFixed(3)}cqw`;
+
+const renderRun = (run: Element, defaultSize: number, scale: number, defaultColor: string | null, deck: DeckContext): string => {
+  const rPr = childNS(run, A_NS, 'rPr');
+  const size = (parseInt(rPr?.getAttribute('sz') || '', 10) / 100 || defaultSize) * scale;
+  const color = resolveColor(childNS(rPr, A_NS, 'solidFill'), deck) || defaultColor;
+  const styles = [
+    `font-size:${fontSizeCss(size, deck)}`,
+    color ? `color:${color}` : '',
+    rPr?.getAttribute('b') === '1' ? 'font-weight:bold' : '',
+    rPr?.getAttribute('i') === '1' ? 'font-style:italic' : '',
+    rPr?.getAttribute('u') && rPr.getAttribute('u') !== 'none' ? 'text-decoration:underline' : ''
+  ].filter(Boolean).join(';');
+  return `<span style="${styles}">${escapeHtml(childNS(run, A_NS, 't')?.textContent || '')}</span>`;
+};
+
+const renderTextBody = (
+  txBody: Element,
+  deck: DeckContext,
+  placeholderType: string | null,
+  defaultColor: string | null
+): string => {
+  const bodyPr = childNS(txBody, A_NS, 'bodyPr');
+  const autofit = childNS(bodyPr, A_NS, 'normAutofit');
+  const scale = parseInt(autofit?.getAttribute('fontScale') || '100000', 10) / 100000;
+  const lineSpacing = 1.2 * (1 - parseInt(autofit?.getAttribute('lnSpcReduction') || '0', 10) / 100000);
+  const listStyle = childNS(txBody, A_NS, 'lstStyle');
+
+  return Array.from(txBody.children).filter(el => el.localName === 'p').map(paragraph => {
+    const pPr = childNS(paragraph, A_NS, 'pPr');
+    const level = parseInt(pPr?.getAttribute('lvl') || '0', 10);
+    const listSize = childNS(childNS(listStyle, A_NS, `lvl${level + 1}pPr`), A_NS, 'defRPr')?.getAttribute('sz');
+    const defaultSize = listSize ? parseInt(listSize, 10) / 100 : getDefaultFontSize(deck, placeholderType, level);
+    const align = { ctr: 'center', r: 'right', just: 'justify', dist: 'justify' }[pPr?.getAttribute('algn') || ''] || 'left';
+    const indent = level > 0 ? `padding-left:${level * 4}%;` : '';
+
+    const content = Array.from(paragraph.children).map(child => {
+      if (child.localName === 'r' || child.localName === 'fld') return renderRun(child, defaultSize, scale, defaultColor, deck);
+      if (child.localName === 'br') return '<br/>';
+      return '';
+    }).join('');
+
+    const endSize = (parseInt(childNS(paragraph, A_NS, 'endParaRPr')?.getAttribute('sz') || '', 10) / 100 || defaultSize) * scale;
+    return `<p style="margin:0;text-align:${align};line-height:${lineSpacing.toFixed(2)};${indent}font-size:${fontSizeCss(endSize, deck)}">${content || '&nbsp;'}</p>`;
+  }).join('');
+};
+
+// --- SHAPES ---
+
+const positionCss = (box: Box, deck: DeckContext): string =>
+  `position:absolute;left:${pct(box.x, deck.slideWidth)};top:${pct(box.y, deck.slideHeight)};` +
+  `width:${pct(box.cx, deck.slideWidth)};height:${pct(box.cy, deck.slideHeight)};` +
+  (box.rot ? `transform:rotate(${box.rot}deg);` : '');
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', gif: 'image/gif', bmp: 'image/bmp',
+  svg: 'image/svg+xml', webp: 'image/webp', tif: 'image/tiff', tiff: 'image/tiff'
+};
+
+const getImageUrl = async (part: PartContext, deck: DeckContext, embedId: string | null): Promise<string | null> => {
+  const mediaPath = embedId ? part.rels.get(embedId) : undefined;
+  const mediaFile = mediaPath ? part.zip.file(mediaPath) : null;
+  if (!mediaPath || !mediaFile) return null;
+  if (!deck.images.has(mediaPath)) {
+    // The path comes from the deck, so only known extensions may reach the data: URL
+    const extension = mediaPath.split('.').pop()?.toLowerCase() || '';
+    const mimeType = IMAGE_MIME_TYPES[extension];
+    if (!mimeType) return null;
+    deck.images.set(mediaPath, `data:${mimeType};base64,${await mediaFile.async('base64')}`);
+  }
+  return deck.images.get(mediaPath)!;
+};
+
+const renderTable = (frame: Element, box: Box, deck: DeckContext): string => {
+  const table = frame.getElementsByTagNameNS(A_NS, 'tbl')[0];
+  const gridWidths = Array.from(childNS(table, A_NS, 'tblGrid')?.children || []).map(col => parseInt(col.getAttribute('w') || '0', 10));
+  const totalWidth = gridWidths.reduce((sum, w) => sum + w, 0) || 1;
+
+  const rows = Array.from(table.children).filter(el => el.localName === 'tr').map(row => {
+    const height = pct(parseInt(row.getAttribute('h') || '0', 10), box.cy || 1);
+    const cells = Array.from(row.children).filter(el => el.localName === 'tc').map(cell => {
+      if (cell.getAttribute('hMerge') === '1' || cell.getAttribute('vMerge') === '1') return '';
+      const tcPr = childNS(cell, A_NS, 'tcPr');
+      const fill = resolveColor(childNS(tcPr, A_NS, 'solidFill'), deck);
+      const gridSpan = parseInt(cell.getAttribute('gridSpan') || '1', 10);
+      const rowSpan = parseInt(cell.getAttribute('rowSpan') || '1', 10);
+      const span = `${gridSpan > 1 ? ` colspan="${gridSpan}"` : ''}${rowSpan > 1 ? ` rowspan="${rowSpan}"` : ''}`;
+      const txBody = childNS(cell, A_NS, 'txBody');
+      const style = `border:1px solid rgba(100,116,139,0.5);padding:0.3% 0.6%;vertical-align:top;overflow:visible;${fill ? `background:${fill};` : ''}`;
+      return `<td${span} style="${style}">${txBody ? renderTextBody(txBody, deck, null, null) : ''}</td>`;
+    }).join('');
+    return `<tr style="height:${height}">${cells}</tr>`;
+  }).join('');
+
+  const columns = gridWidths.map(w => `<col style="width:${pct(w, totalWidth)}"/>`).join('');
+  return `<table style="${positionCss(box, deck)}height:auto;border-collapse:collapse;table-layout:fixed"><colgroup>${columns}</colgroup>${rows}</table>`;
+};
+
+/**
+ * Placeholders often carry no xfrm: position comes from the matching layout/master placeholder
+ */
+const findInheritedBox = (placeholder: Element, inheritedFrom: Element[]): Box | null => {
+  const idx = placeholder.getAttribute('idx');
+  const type = placeholder.getAttribute('type') || 'body';
+  for (const tree of inheritedFrom) {
+    const candidates = Array.from(tree.getElementsByTagNameNS(P_NS, 'ph'));
+    const match = candidates.find(ph => idx && ph.getAttribute('idx') === idx)
+      || candidates.find(ph => (ph.getAttribute('type') || 'body') === type);
+    let shape: Element | null | undefined = match;
+    while (shape && shape.localName !== 'sp') shape = shape.parentElement;
+    const box = shape ? readBox(shape) : null;
+    if (box) return box;
+  }
+  return null;
+};
+
+/**
+ * Render the children of a p:spTree / p:grpSp. Placeholders are skipped for layouts and masters
+ * (they only define position and style for the slide placeholders).
+ */
+const renderShapeTree = async (
+  tree: Element,
+  part: PartContext,
+  deck: DeckContext,
+  transform: Transform,
+  skipPlaceholders: boolean,
+  inheritedFrom: Element[]
+): Promise<string> => {
+  let html = '';
+  for (const shape of Array.from(tree.children)) {
+    const nonVisualProps = Array.from(shape.children).find(el => el.localName.startsWith('nv'));
+    const placeholder = childNS(childNS(nonVisualProps, P_NS, 'nvPr'), P_NS, 'ph');
+    if (placeholder && skipPlaceholders) continue;
+
+    if (shape.localName === 'grpSp') {
+      const groupBox = readBox(shape);
+      const groupXfrm = childNS(childNS(shape, P_NS, 'grpSpPr'), A_NS, 'xfrm');
+      const chOff = childNS(groupXfrm, A_NS, 'chOff');
+      const chExt = childNS(groupXfrm, A_NS, 'chExt');
+      if (!groupBox || !chOff || !chExt) continue;
+      const num = (node: Element, name: string) => parseInt(node.getAttribute(name) || '0', 10);
+      const scaleX = groupBox.cx / (num(chExt, 'cx') || 1);
+      const scaleY = groupBox.cy / (num(chExt, 'cy') || 1);
+      const childTransform: Transform = box => transform({
+        x: groupBox.x + (box.x - num(chOff, 'x')) * scaleX,
+        y: groupBox.y + (box.y - num(chOff, 'y')) * scaleY,
+        cx: box.cx * scaleX,
+        cy: box.cy * scaleY,
+        rot: box.rot
+      });
+      html += await renderShapeTree(shape, part, deck, childTransform, skipPlaceholders, inheritedFrom);
+      continue;
+    }
+    if (shape.localName !== 'sp' && shape.localName !== 'pic' && shape.localName !== 'graphicFrame' && shape.localName !== 'cxnSp') continue;
+
+    const ownBox = readBox(shape) || (placeholder ? findInheritedBox(placeholder, inheritedFrom) : null);
+    if (!ownBox) continue;
+    const box = transform(ownBox);
+
+    if (shape.localName === 'pic') {
+      const embedId = shape.getElementsByTagNameNS(A_NS, 'blip')[0]?.getAttributeNS(R_NS, 'embed') || null;
+      const url = await getImageUrl(part, deck, embedId);
+      if (url) html += `<img src="${url}" alt="" style="${positionCss(box, deck)}object-fit:fill"/>`;
+      continue;
+    }
+
+    if (shape.localName === 'graphicFrame') {
+      if (shape.getElementsByTagNameNS(A_NS, 'tbl')[0]) {
+        html += renderTable(shape, box, deck);
+      } else {
+        // Charts, SmartArt, OLE objects: show the frame only
+        html += `<div style="${positionCss(box, deck)}border:1px dashed #94a3b8;display:flex;align-items:center;justify-content:center;color:#94a3b8;font-size:${fontSizeCss(12, deck)}">Chart / Diagram</div>`;
+      }
+      continue;
+    }
+
+    // Connectors: only straight horizontal/vertical lines can be drawn as a border
+    if (shape.localName === 'cxnSp' && box.cx > 0 && box.cy > 0) continue;
+
+    const props = childNS(shape, P_NS, 'spPr');
+    const style = childNS(shape, P_NS, 'style');
+    const geometry = childNS(props, A_NS, 'prstGeom')?.getAttribute('prst') || 'rect';
+    const fill = resolveFill(props, style, deck);
+    const radius = geometry === 'ellipse' ? 'border-radius:50%;' : geometry === 'roundRect' ? 'border-radius:8%;' : '';
+
+    const txBody = childNS(shape, P_NS, 'txBody');
+    const bodyPr = childNS(txBody, A_NS, 'bodyPr');
+    const inset = (name: string, fallback: number) => pct(parseInt(bodyPr?.getAttribute(name) || String(fallback), 10), deck.slideWidth);
+    const anchor = { ctr: 'center', b: 'flex-end' }[bodyPr?.getAttribute('anchor') || ''] || 'flex-start';
+    const defaultColor = resolveColor(childNS(style, A_NS, 'fontRef'), deck);
+    const hasText = !!txBody && (txBody.textContent || '').trim().length > 0;
+
+    const boxStyle = positionCss(box, deck) + (fill ? `background:${fill};` : '') + resolveLine(props, style, deck) + radius +
+      `box-sizing:border-box;display:flex;flex-direction:column;justify-content:${anchor};overflow:visible;` +
+      `padding:${inset('tIns', 45720)} ${inset('rIns', 91440)} ${inset('bIns', 45720)} ${inset('lIns', 91440)};`;
+    html += `<div style="${boxStyle}">${hasText ? renderTextBody(txBody!, deck, placeholder?.getAttribute('type') || (placeholder ? 'body' : null), defaultColor) : ''}</div>`;
+  }
+  return html;
+};
+
+const resolveBackground = (docs: Document[], deck: DeckContext): string => {
+  for (const doc of docs) {
+    const bg = doc.getElementsByTagNameNS(P_NS, 'bg')[0];
+    if (!bg) continue;
+    const color = resolveFill(childNS(bg, P_NS, 'bgPr'), null, deck) || resolveColor(childNS(bg, P_NS, 'bgRef'), deck);
+    if (color) return color;
+  }
+  return '#ffffff';
+};
+
+/**
+ * Load theme colors for a master, with bg1/tx1/bg2/tx2 mapped through its p:clrMap
+ */
+const loadThemeColors = async (zip: JSZip, masterPath: string, master: Document): Promise<Map<string, string>> => {
+  const colors = new Map<string, string>();
+  const themePath = Array.from((await readRelationships(zip, masterPath)).values()).find(path => path.includes('/theme/'));
+  const theme = themePath ? await parseXml(zip, themePath) : null;
+  const scheme = theme?.getElementsByTagNameNS(A_NS, 'clrScheme')[0];
+  Array.from(scheme?.children || []).forEach(entry => {
+    const colorEl = entry.children[0];
+    const hex = colorEl?.getAttribute('val') && colorEl.localName === 'srgbClr' ? colorEl.getAttribute('val') : colorEl?.getAttribute('lastClr');
+    if (hex && /^[0-9a-f]{6}$/i.test(hex)) colors.set(entry.localName, hex);
+  });
+
+  const clrMap = master.getElementsByTagNameNS(P_NS, 'clrMap')[0];
+  const defaults: Record<string, string> = { bg1: 'lt1', tx1: 'dk1', bg2: 'lt2', tx2: 'dk2' };
+  Object.entries(defaults).forEach(([alias, fallback]) => {
+    const hex = colors.get(clrMap?.getAttribute(alias) || fallback);
+    if (hex) colors.set(alias, hex);
+  });
+  return colors;
+};
+
+/**
+ * Render every slide of a deck (in presentation order) to HTML for the preview modal
+ */
+export const renderPptxSlides = async (source: Blob): Promise<PptxSlideRender[]> => {
+  const zip = await JSZip.loadAsync(await source.arrayBuffer());
+  const presentation = await parseXml(zip, 'ppt/presentation.xml');
+  const sldSz = presentation?.getElementsByTagNameNS(P_NS, 'sldSz')[0];
+  const slideWidth = parseInt(sldSz?.getAttribute('cx') || '12192000', 10);
+  const slideHeight = parseInt(sldSz?.getAttribute('cy') || '6858000', 10);
+  const images = new Map<string, string>();
+  const identity: Transform = box => box;
+
+  const renders: PptxSlideRender[] = [];
+  const slidePaths = await getOrderedSlidePaths(zip);
+  for (let i = 0; i < slidePaths.length; i++) {
+    const slide = await parseXml(zip, slidePaths[i]);
+    if (!slide) continue;
+    const slideRels = await readRelationships(zip, slidePaths[i]);
+    const layoutPath = Array.from(slideRels.values()).find(path => path.includes('/slideLayouts/'));
+    const layout = layoutPath ? await parseXml(zip, layoutPath) : null;
+    const layoutRels = layoutPath ? await readRelationships(zip, layoutPath) : new Map<string, string>();
+    const masterPath = Array.from(layoutRels.values()).find(path => path.includes('/slideMasters/'));
+    const master = masterPath ? await parseXml(zip, masterPath) : null;
+
+    const deck: DeckContext = {
+      slideWidth,
+      slideHeight,
+      colors: master && masterPath ? await loadThemeColors(zip, masterPath, master) : new Map(),
+      txStyles: master?.getElementsByTagNameNS(P_NS, 'txStyles')[0] || null,
+      images
+    };
+
+    const trees = (doc: Document | null) => doc ? Array.from(doc.getElementsByTagNameNS(P_NS, 'spTree')).slice(0, 1) : [];
+    const [slideTree] = trees(slide);
+    const layoutTrees = trees(layout);
+    const masterTrees = trees(master);
+
+    let html = '';
+    const showMasterShapes = (el: Document | null) => el?.documentElement.getAttribute('showMasterSp') !== '0';
+    if (master && masterPath && showMasterShapes(slide) && showMasterShapes(layout)) {
+      html += await renderShapeTree(masterTrees[0], { zip, rels: await readRelationships(zip, masterPath) }, deck, identity, true, []);
+    }
+    if (layout && showMasterShapes(slide)) {
+      html += await renderShapeTree(layoutTrees[0], { zip, rels: layoutRels }, deck, identity, true, []);
+    }
+    if (slideTree) {
+      html += await renderShapeTree(slideTree, { zip, rels: slideRels }, deck, identity, false, [...layoutTrees, ...masterTrees]);
+    }
+
+    const background = resolveBackground([slide, layout, master].filter((d): d is Document => !!d), deck);
+    renders.push({
+      number: i + 1,
+      aspectRatio: slideWidth / slideHeight,
+      html: `<div style="position:relative;width:100%;height:100%;overflow:hidden;container-type:inline-size;background:${background};font-family:Calibri,Arial,sans-serif;color:#${deck.colors.get('tx1') || '000000'}">${html}</div>`
+    });
+  }
+  return renders;
+};
@@ -0,0 +1,263 @@
+import JSZip from 'jszip';
+import { PptxSlideInfo, PptxImageInfo } from '../types';
+import { extractTextFromBase64 } from './geminiService';
+import { readRelationships } from './opcPackage';
+
+const A_NS = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const P_NS = 'http://schemas.openxmlformats.org/presentationml/2006/main';
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+const THUMBNAIL_WIDTH = 192;
+const IMAGE_THUMBNAIL_SIZE = 96;
+
+/**
+ * Which parts of a deck processPptx should translate
+ */
+export interface PptxPartSelection {
+  slides: number[];
+  notes: boolean;
+  masters: boolean;
+  layouts: boolean;
+}
+
+// --- PACKAGE HELPERS ---
+
+/**
+ * Slide part paths in presentation order (p:sldIdLst), not file-name order
+ */
+export const getOrderedSlidePaths = async (zip: JSZip): Promise<string[]> => {
+  const xml = await zip.file('ppt/presentation.xml')?.async('string');
+  if (!xml) return [];
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const rels = await readRelationships(zip, 'ppt/presentation.xml');
+
+  return Array.from(doc.getElementsByTagNameNS(P_NS, 'sldId'))
+    .map(sldId => rels.get(sldId.getAttributeNS(R_NS, 'id') || '') || '')
+    .filter(path => path && zip.file(path));
+};
+
+// --- SLIDE LIST ---
+
+const getShapeText = (shape: Element): string =>
+  Array.from(shape.getElementsByTagNameNS(A_NS, 'p'))
+    .map(p => Array.from(p.getElementsByTagNameNS(A_NS, 't')).map(t => t.textContent || '').join(''))
+    .filter(text => text.trim())
+    .join(' ');
+
+const getSlideTitle = (doc: Document): string => {
+  const shapes = Array.from(doc.getElementsByTagNameNS(P_NS, 'sp'));
+  const titleShape = shapes.find(sp => {
+    const type = sp.getElementsByTagNameNS(P_NS, 'ph')[0]?.getAttribute('type');
+    return type === 'title' || type === 'ctrTitle';
+  });
+  const text = (titleShape && getShapeText(titleShape)) || shapes.map(getShapeText).find(t => t.trim()) || '';
+  return text.length > 60 ? text.substring(0, 57) + '...' : text;
+};
+
+const getXfrm = (el: Element): { x: number, y: number, cx: number, cy: number } | null => {
+  const xfrm = el.getElementsByTagNameNS(A_NS, 'xfrm')[0];
+  const off = xfrm?.getElementsByTagNameNS(A_NS, 'off')[0];
+  const ext = xfrm?.getElementsByTagNameNS(A_NS, 'ext')[0];
+  if (!off || !ext) return null;
+  const num = (node: Element, name: string) => parseInt(node.getAttribute(name) || '0', 10);
+  return { x: num(off, 'x'), y: num(off, 'y'), cx: num(ext, 'cx'), cy: num(ext, 'cy') };
+};
+
+/**
+ * Draw a small layout sketch of the slide: embedded pictures and text boxes with their text.
+ * Rendering real slides needs a full PowerPoint renderer, this is enough to recognise a slide.
+ */
+const renderSlideThumbnail = async (
+  zip: JSZip,
+  slidePath: string,
+  doc: Document,
+  slideSize: { cx: number, cy: number }
+): Promise<string> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = THUMBNAIL_WIDTH;
+  canvas.height = Math.round(THUMBNAIL_WIDTH * slideSize.cy / slideSize.cx);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return '';
+  const scale = canvas.width / slideSize.cx;
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  const rels = await readRelationships(zip, slidePath);
+  for (const pic of Array.from(doc.getElementsByTagNameNS(P_NS, 'pic'))) {
+    const box = getXfrm(pic);
+    const embedId = pic.getElementsByTagNameNS(A_NS, 'blip')[0]?.getAttributeNS(R_NS, 'embed');
+    const mediaPath = embedId ? rels.get(embedId) : undefined;
+    if (!box || !mediaPath || !/\.(png|jpe?g|gif|bmp)$/i.test(mediaPath)) continue;
+    try {
+      const bitmap = await createImageBitmap(await zip.file(mediaPath)!.async('blob'));
+      ctx.drawImage(bitmap, box.x * scale, box.y * scale, box.cx * scale, box.cy * scale);
+      bitmap.close();
+    } catch {
+      // Unsupported image format: leave the area blank
+    }
+  }
+
+  ctx.textBaseline = 'top';
+  Array.from(doc.getElementsByTagNameNS(P_NS, 'sp')).forEach(sp => {
+    const box = getXfrm(sp);
+    const text = getShapeText(sp);
+    if (!box || !text.trim()) return;
+    const isTitle = /title|ctrTitle/i.test(sp.getElementsByTagNameNS(P_NS, 'ph')[0]?.getAttribute('type') || '');
+    const fontSize = isTitle ? 9 : 6;
+
+    ctx.strokeStyle = '#cbd5e1';
+    ctx.strokeRect(box.x * scale, box.y * scale, box.cx * scale, box.cy * scale);
+    ctx.fillStyle = '#1e293b';
+    ctx.font = `${isTitle ? 'bold ' : ''}${fontSize}px sans-serif`;
+
+    // Naive wrap by measured width, clipped to the box height
+    const maxWidth = Math.max(10, box.cx * scale - 4);
+    let line = '';
+    let y = box.y * scale + 2;
+    for (const char of text) {
+      if (ctx.measureText(line + char).width > maxWidth) {
+        ctx.fillText(line, box.x * scale + 2, y);
+        line = '';
+        y += fontSize + 1;
+        if (y > (box.y + box.cy) * scale - fontSize) return;
+      }
+      line += char;
+    }
+    if (line) ctx.fillText(line, box.x * scale + 2, y);
+  });
+
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * List slides with title and thumbnail when a deck is queued
+ */
+export const getPptxSlides = async (file: File): Promise<PptxSlideInfo[]> => {
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const presentationXml = await zip.file('ppt/presentation.xml')?.async('string');
+  const sldSz = presentationXml
+    ? new DOMParser().parseFromString(presentationXml, 'application/xml').getElementsByTagNameNS(P_NS, 'sldSz')[0]
+    : undefined;
+  const slideSize = {
+    cx: parseInt(sldSz?.getAttribute('cx') || '12192000', 10),
+    cy: parseInt(sldSz?.getAttribute('cy') || '6858000', 10)
+  };
+
+  const slides: PptxSlideInfo[] = [];
+  const slidePaths = await getOrderedSlidePaths(zip);
+  for (let i = 0; i < slidePaths.length; i++) {
+    const xml = await zip.file(slidePaths[i])!.async('string');
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    slides.push({
+      number: i + 1,
+      path: slidePaths[i],
+      title: getSlideTitle(doc) || `Slide ${i + 1}`,
+      thumbnail: await renderSlideThumbnail(zip, slidePaths[i], doc, slideSize)
+    });
+  }
+  return slides;
+};
+
+// --- IMAGE LIST ---
+
+const renderImageThumbnail = async (blob: Blob): Promise<string> => {
+  try {
+    const bitmap = await createImageBitmap(blob);
+    const scale = Math.min(1, IMAGE_THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas.toDataURL('image/png');
+  } catch {
+    return '';
+  }
+};
+
+/**
+ * List the embedded PNG/JPEG images (the ones processPptx can translate) with the slides using them
+ */
+export const getPptxImages = async (file: File): Promise<PptxImageInfo[]> => {
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const usage = new Map<string, number[]>();
+  const slidePaths = await getOrderedSlidePaths(zip);
+  for (let i = 0; i < slidePaths.length; i++) {
+    (await readRelationships(zip, slidePaths[i])).forEach(target => {
+      if (target.startsWith('ppt/media/')) usage.set(target, [...(usage.get(target) || []), i + 1]);
+    });
+  }
+
+  const images: PptxImageInfo[] = [];
+  const mediaPaths = Object.keys(zip.files).filter(path => path.startsWith('ppt/media/') && /\.(png|jpe?g)$/i.test(path));
+  for (const path of mediaPaths) {
+    images.push({
+      path,
+      thumbnail: await renderImageThumbnail(await zip.file(path)!.async('blob')),
+      slides: Array.from(new Set(usage.get(path) || []))
+    });
+  }
+  return images;
+};
+
+/**
+ * Run OCR on embedded images to tell pictures with text (diagrams, screenshots) from logos and photos.
+ * Images whose OCR call failed are listed in `failed` and left out of `hasText`.
+ */
+export const detectPptxImageText = async (
+  file: File,
+  paths: string[],
+  onProgress?: (done: number, total: number) => void
+): Promise<{ hasText: Record<string, boolean>, failed: string[] }> => {
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const hasText: Record<string, boolean> = {};
+  const failed: string[] = [];
+  for (let i = 0; i < paths.length; i++) {
+    onProgress?.(i, paths.length);
+    const base64 = await zip.file(paths[i])?.async('base64');
+    if (!base64) continue;
+    try {
+      const text = await extractTextFromBase64(base64, /\.png$/i.test(paths[i]) ? 'image/png' : 'image/jpeg', true);
+      // Ignore stray characters and "no text" style answers
+      hasText[paths[i]] = /\p{L}{2,}/u.test(text) && !/^\W*no (visible )?text/i.test(text.trim());
+    } catch (err) {
+      console.error(`OCR failed for ${paths[i]}`, err);
+      failed.push(paths[i]);
+    }
+  }
+  onProgress?.(paths.length, paths.length);
+  return { hasText, failed };
+};
+
+// --- PART SELECTION ---
+
+/**
+ * Resolve a selection to the package parts to translate: the chosen slides plus the charts,
+ * SmartArt, media and comments they reference, their notes, and (optionally) all masters and layouts.
+ */
+export const resolvePptxParts = async (zip: JSZip, selection: PptxPartSelection): Promise<Set<string>> => {
+  const parts = new Set<string>();
+  const slidePaths = await getOrderedSlidePaths(zip);
+  const addWithRelated = async (partPath: string) => {
+    parts.add(partPath);
+    const rels = await readRelationships(zip, partPath);
+    rels.forEach(target => {
+      const isRelatedPart = /^ppt\/(charts\/chart|diagrams\/(data|drawing)|media\/|comments\/)/.test(target);
+      const isNotes = selection.notes && target.startsWith('ppt/notesSlides/');
+      if (isRelatedPart || isNotes) parts.add(target);
+    });
+  };
+
+  for (const number of selection.slides) {
+    const path = slidePaths[number - 1];
+    if (path) await addWithRelated(path);
+  }
+
+  for (const path of Object.keys(zip.files)) {
+    const isMaster = selection.masters && /^ppt\/slideMasters\/slideMaster\d+\.xml$/.test(path);
+    const isLayout = selection.layouts && /^ppt\/slideLayouts\/slideLayout\d+\.xml$/.test(path);
+    if (isMaster || isLayout) await addWithRelated(path);
+  }
+  return parts;
+};
@@ -0,0 +1,56 @@
+/**
+ * Run Segments - translate a whole paragraph while keeping per-run formatting.
+ *
+ * A paragraph split across several formatted runs is sent to the model as one
+ * string with each run wrapped in an inline index tag (<r0>…</r0><r1>…</r1>),
+ * so the sentence is translated with full grammar context. The translated
+ * string is then split back into one text per run.
+ */
+
+const RUN_TAG_PATTERN = /<r(\d+)>([\s\S]*?)<\/r\1>/g;
+
+/**
+ * Join run texts into a single translatable string.
+ * A single run is returned as-is (no tags needed).
+ */
+export const encodeRunSegments = (runTexts: string[]): string => {
+  if (runTexts.length === 1) return runTexts[0];
+  return runTexts.map((text, idx) => `<r${idx}>${text}</r${idx}>`).join('');
+};
+
+/**
+ * Split a translated string back into `runCount` run texts.
+ * Runs the model dropped become empty; if no tags survived at all, the whole
+ * translation goes into the first run so no text is lost.
+ */
+export const decodeRunSegments = (translated: string, runCount: number): string[] => {
+  if (runCount === 1) return [translated];
+
+  const result: string[] = new Array(runCount).fill('');
+  let matched = false;
+  let lastIndex = 0;
+  let lastRun = 0;
+
+  for (const match of translated.matchAll(RUN_TAG_PATTERN)) {
+    const runIdx = parseInt(match[1], 10);
+    if (runIdx >= runCount) continue;
+
+    // Text the model placed between tags belongs to the preceding run
+    const stray = translated.substring(lastIndex, match.index).replace(/<\/?r\d+>/g, '');
+    if (stray) result[lastRun] += stray;
+
+    result[runIdx] += match[2];
+    lastIndex = (match.index ?? 0) + match[0].length;
+    lastRun = runIdx;
+    matched = true;
+  }
+
+  if (!matched) {
+    result[0] = translated.replace(/<\/?r\d+>/g, '');
+    return result;
+  }
+
+  const tail = translated.substring(lastIndex).replace(/<\/?r\d+>/g, '');
+  if (tail) result[lastRun] += tail;
+  return result;
+};
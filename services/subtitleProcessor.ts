@@ -0,0 +1,208 @@
+import { translateBatchStrings, detectLanguage } from './geminiService';
+import { SupportedLanguage, GlossaryItem, BlacklistItem } from '../types';
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass';
+
+/**
+ * A subtitle file is kept as an ordered list of entries: raw parts (headers,
+ * NOTE/STYLE blocks, [Script Info]...) are written back byte-identical, cues keep
+ * their head (index, timestamps, ASS Dialogue fields) and only the text is translated.
+ */
+type SubtitleEntry =
+  | { kind: 'raw'; raw: string }
+  | { kind: 'cue'; head: string; text: string };
+
+export interface ParsedSubtitles {
+  format: SubtitleFormat;
+  entries: SubtitleEntry[];
+  lineEnding: '\r\n' | '\n';
+}
+
+// Inline styling: <i>, <font color=...>, <c.yellow>, <v Speaker> (SRT/VTT) and {\an8\i1} (ASS)
+const MARKUP_TAG_PATTERN = /<[^>]+>|\{[^}]*\}/g;
+const isMarkupTag = (piece: string): boolean => /^(?:<[^>]+>|\{[^}]*\})$/.test(piece);
+const CUE_BATCH_SIZE = 30;
+
+export const detectSubtitleFormat = (fileName: string, content: string): SubtitleFormat => {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith('.vtt') || content.trimStart().startsWith('WEBVTT')) return 'vtt';
+  if (lower.endsWith('.ass') || lower.endsWith('.ssa') || /^\[Script Info\]/m.test(content)) return 'ass';
+  return 'srt';
+};
+
+// --- PARSING ---
+
+const parseBlockSubtitles = (content: string): SubtitleEntry[] => {
+  return content.replace(/\n+$/, '').split(/\n[ \t]*\n+/).filter(block => block.trim().length > 0).map(block => {
+    const lines = block.replace(/^\n+/, '').split('\n');
+    const timingIdx = lines.findIndex(line => line.includes('-->'));
+    const isMetaBlock = /^(WEBVTT|NOTE|STYLE|REGION)\b/.test(lines[0]);
+    if (timingIdx === -1 || isMetaBlock) return { kind: 'raw', raw: lines.join('\n') };
+    return {
+      kind: 'cue',
+      head: lines.slice(0, timingIdx + 1).join('\n'),
+      text: lines.slice(timingIdx + 1).join('\n')
+    };
+  });
+};
+
+const parseAssSubtitles = (content: string): SubtitleEntry[] => {
+  let inEvents = false;
+  let textFieldIndex = 9; // Default ASS v4+ Format: Layer,Start,End,Style,Name,MarginL,MarginR,MarginV,Effect,Text
+
+  return content.split('\n').map((line): SubtitleEntry => {
+    if (/^\[.*\]\s*$/.test(line)) inEvents = line.trim().toLowerCase() === '[events]';
+
+    if (inEvents && line.startsWith('Format:')) {
+      const fields = line.substring('Format:'.length).split(',').map(f => f.trim().toLowerCase());
+      textFieldIndex = Math.max(0, fields.indexOf('text'));
+    }
+
+    if (inEvents && line.startsWith('Dialogue:')) {
+      // Text is the last field and may itself contain commas
+      let commaCount = 0;
+      for (let i = 0; i < line.length; i++) {
+        if (line[i] === ',' && ++commaCount === textFieldIndex) {
+          return { kind: 'cue', head: line.substring(0, i + 1), text: line.substring(i + 1) };
+        }
+      }
+    }
+    return { kind: 'raw', raw: line };
+  });
+};
+
+export const parseSubtitles = (content: string, format: SubtitleFormat): ParsedSubtitles => {
+  const lineEnding = content.includes('\r\n') ? '\r\n' : '\n';
+  const normalized = content.replace(/\r\n/g, '\n');
+  const entries = format === 'ass' ? parseAssSubtitles(normalized) : parseBlockSubtitles(normalized);
+  return { format, entries, lineEnding };
+};
+
+export const serializeSubtitles = (parsed: ParsedSubtitles): string => {
+  let output: string;
+  if (parsed.format === 'ass') {
+    output = parsed.entries.map(e => e.kind === 'raw' ? e.raw : e.head + e.text).join('\n');
+  } else {
+    output = parsed.entries.map(e => e.kind === 'raw' ? e.raw : `${e.head}\n${e.text}`).join('\n\n') + '\n';
+  }
+  return parsed.lineEnding === '\r\n' ? output.replace(/\n/g, '\r\n') : output;
+};
+
+// --- TEXT HELPERS ---
+
+/**
+ * Replace styling tags with short tokens (<t0/>, <t1/>) so the model cannot alter them
+ */
+const maskMarkup = (text: string): { masked: string, tags: string[] } => {
+  const tags: string[] = [];
+  const masked = text.replace(MARKUP_TAG_PATTERN, (tag) => {
+    tags.push(tag);
+    return `<t${tags.length - 1}/>`;
+  });
+  return { masked, tags };
+};
+
+const unmaskMarkup = (text: string, tags: string[]): string =>
+  text.replace(/<t(\d+)\/>/g, (token, idx) => tags[parseInt(idx, 10)] ?? '');
+
+const visibleLength = (text: string): number => text.replace(MARKUP_TAG_PATTERN, '').length;
+
+/**
+ * Wrap a single line to `maxChars` visible characters.
+ * Breaks at spaces; text without spaces (Japanese, Chinese, Thai) is broken by character count.
+ */
+export const wrapSubtitleLine = (line: string, maxChars: number): string[] => {
+  if (maxChars <= 0 || visibleLength(line) <= maxChars) return [line];
+
+  if (!line.includes(' ')) {
+    const chunks: string[] = [];
+    let current = '';
+    for (const piece of line.split(/(<[^>]+>|\{[^}]*\})/)) {
+      if (isMarkupTag(piece)) {
+        current += piece;
+        continue;
+      }
+      for (const char of piece) {
+        if (visibleLength(current) >= maxChars) {
+          chunks.push(current);
+          current = '';
+        }
+        current += char;
+      }
+    }
+    if (current) chunks.push(current);
+    return chunks;
+  }
+
+  const lines: string[] = [];
+  let current = '';
+  for (const word of line.split(' ')) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && visibleLength(candidate) > maxChars) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+};
+
+// --- MAIN PROCESSING ---
+
+/**
+ * Process subtitle file (SRT / WebVTT / ASS): translate cue text in context-preserving
+ * batches, keep indices, timestamps and styling tags, and re-wrap lines to `maxCharsPerLine`.
+ */
+export const processSubtitles = async (
+  file: File,
+  targetLang: SupportedLanguage,
+  context: string,
+  glossary: GlossaryItem[],
+  onProgress: (msg: string, percent: number) => void,
+  maxCharsPerLine: number = 42,
+  skipAlreadyTranslated: boolean = true,
+  sourceLang: string = 'auto',
+  blacklist: BlacklistItem[] = []
+): Promise<{ blob: Blob, translatedText: string }> => {
+  onProgress('Parsing subtitle cues...', 5);
+  const content = await file.text();
+  const format = detectSubtitleFormat(file.name, content);
+  const parsed = parseSubtitles(content, format);
+  const lineBreak = format === 'ass' ? '\\N' : '\n';
+  const targetLangCode = targetLang.toLowerCase().substring(0, 2);
+
+  const cues = parsed.entries.filter((e): e is Extract<SubtitleEntry, { kind: 'cue' }> =>
+    e.kind === 'cue' && e.text.replace(MARKUP_TAG_PATTERN, '').trim().length > 0 &&
+    !(skipAlreadyTranslated && detectLanguage(e.text) === targetLangCode)
+  );
+  onProgress(`Found ${cues.length} ${format.toUpperCase()} cues to translate...`, 10);
+
+  // Consecutive cues are sent together so dialogue keeps its context
+  const cueContext = `${context ? context + '\n' : ''}These are consecutive subtitle cues from one video. Translate each entry on its own, keep line breaks (\\n) and <tN/> tokens, keep it short enough to read on screen.`;
+
+  for (let i = 0; i < cues.length; i += CUE_BATCH_SIZE) {
+    const batch = cues.slice(i, i + CUE_BATCH_SIZE);
+    const batchNumber = Math.floor(i / CUE_BATCH_SIZE) + 1;
+    const totalBatches = Math.ceil(cues.length / CUE_BATCH_SIZE);
+    onProgress(`Translating cue batch ${batchNumber}/${totalBatches}...`, 10 + Math.floor((i / cues.length) * 80));
+
+    const maskedBatch = batch.map(cue => maskMarkup(cue.text.split(lineBreak).join('\n')));
+    const translated = await translateBatchStrings(maskedBatch.map(m => m.masked), targetLang, cueContext, glossary, sourceLang, blacklist);
+
+    batch.forEach((cue, idx) => {
+      if (!translated[idx]) return;
+      // Wrap while tags are still <tN/> tokens: tags like <font color="red"> contain spaces
+      const wrapped = translated[idx].split('\n').flatMap(line => wrapSubtitleLine(line.trim(), maxCharsPerLine));
+      cue.text = wrapped.map(line => unmaskMarkup(line, maskedBatch[idx].tags)).join(lineBreak);
+    });
+  }
+
+  onProgress('Rebuilding subtitle file...', 95);
+  const translatedText = serializeSubtitles(parsed);
+  const mimeType = format === 'vtt' ? 'text/vtt' : format === 'ass' ? 'text/x-ssa' : 'application/x-subrip';
+
+  onProgress('Done', 100);
+  return { blob: new Blob([translatedText], { type: mimeType }), translatedText };
+};
@@ -0,0 +1,166 @@
+import * as XLSX from 'xlsx';
+import { translateBatchStrings, detectLanguage } from './geminiService';
+import { renameSheetReferences } from './excelReferences';
+import { SupportedLanguage, GlossaryItem, BlacklistItem } from '../types';
+
+export type LegacyXlsOutputFormat = 'xls' | 'xlsx';
+
+/**
+ * Detect legacy BIFF (.xls) workbooks by their OLE2 compound file signature
+ * (OOXML .xlsx files are ZIP archives starting with "PK").
+ */
+export const isLegacyXls = (arrayBuffer: ArrayBuffer): boolean => {
+  const bytes = new Uint8Array(arrayBuffer, 0, Math.min(4, arrayBuffer.byteLength));
+  return bytes.length === 4 && bytes[0] === 0xD0 && bytes[1] === 0xCF && bytes[2] === 0x11 && bytes[3] === 0xE0;
+};
+
+export const getLegacyXlsSheetNames = (arrayBuffer: ArrayBuffer): string[] => {
+  const workbook = XLSX.read(arrayBuffer, { type: 'array', bookSheets: true });
+  return workbook.SheetNames;
+};
+
+/**
+ * Process legacy .xls workbook with SheetJS: translate cell text and sheet names,
+ * then write back as .xls (BIFF8) or upgrade to .xlsx.
+ * SheetJS Community Edition does not keep styles or drawings, so the returned
+ * warnings list every feature that was dropped.
+ */
+export const processLegacyXls = async (
+  arrayBuffer: ArrayBuffer,
+  targetLang: SupportedLanguage,
+  selectedSheets: string[],
+  context: string,
+  glossary: GlossaryItem[],
+  onProgress: (msg: string, percent: number) => void,
+  skipAlreadyTranslated: boolean = true,
+  sourceLang: string = 'auto',
+  blacklist: BlacklistItem[] = [],
+  outputFormat: LegacyXlsOutputFormat = 'xlsx'
+): Promise<{ blob: Blob, warnings: string[] }> => {
+  onProgress('Loading legacy .xls workbook (BIFF)...', 5);
+  const workbook = XLSX.read(arrayBuffer, { type: 'array', cellFormula: true, cellNF: true, bookVBA: true });
+  const targetLangCode = targetLang.toLowerCase().substring(0, 2);
+
+  // 1. Collect string cells (formulas keep their cached value untouched)
+  onProgress('Analyzing cells...', 10);
+
+  interface TranslatableCell {
+    cell: XLSX.CellObject;
+    val: string;
+  }
+  const allItems: TranslatableCell[] = [];
+  let richTextCells = 0;
+
+  selectedSheets.forEach(sheetName => {
+    const worksheet = workbook.Sheets[sheetName];
+    if (!worksheet) return;
+
+    Object.keys(worksheet).forEach(address => {
+      if (address.startsWith('!')) return;
+      const cell = worksheet[address] as XLSX.CellObject;
+      if (cell.t !== 's' || cell.f || typeof cell.v !== 'string') return;
+
+      const text = cell.v;
+      if (text.trim().length === 0 || text.startsWith('=')) return;
+      if (skipAlreadyTranslated && detectLanguage(text) === targetLangCode) return;
+
+      if (cell.r) richTextCells++;
+      allItems.push({ cell, val: text });
+    });
+  });
+
+  // 2. Translate in batches
+  if (allItems.length > 0) {
+    const BATCH_SIZE = 40;
+    const totalBatches = Math.ceil(allItems.length / BATCH_SIZE);
+    onProgress(`Translating ${allItems.length} cells in ${totalBatches} batches...`, 15);
+
+    for (let i = 0; i < allItems.length; i += BATCH_SIZE) {
+      const batch = allItems.slice(i, i + BATCH_SIZE);
+      const batchNumber = Math.floor(i / BATCH_SIZE) + 1;
+      onProgress(`Translating cell batch ${batchNumber}/${totalBatches}...`, 15 + Math.floor((i / allItems.length) * 70));
+
+      const translated = await translateBatchStrings(batch.map(item => item.val), targetLang, context, glossary, sourceLang, blacklist);
+      batch.forEach((item, idx) => {
+        if (!translated[idx]) return;
+        item.cell.v = translated[idx];
+        // Drop cached renderings of the old value
+        delete item.cell.w;
+        delete item.cell.h;
+        delete item.cell.r;
+      });
+    }
+  }
+
+  // 3. Translate sheet names
+  const sheetsToTranslate = selectedSheets.filter(name =>
+    workbook.Sheets[name] && !(skipAlreadyTranslated && detectLanguage(name) === targetLangCode)
+  );
+  const sheetRenames = new Map<string, string>();
+  if (sheetsToTranslate.length > 0) {
+    onProgress(`Translating ${sheetsToTranslate.length} sheet names...`, 88);
+    try {
+      const translatedNames = await translateBatchStrings(sheetsToTranslate, targetLang, context, glossary, sourceLang, blacklist);
+      translatedNames.forEach((newName, idx) => {
+        const oldName = sheetsToTranslate[idx];
+        if (!newName || newName === oldName) return;
+
+        // Excel sheet names: max 31 chars, no [ ] * / \ ? :
+        const cleanName = newName.replace(/[\[\]\*\/\\\?:]/g, '').substring(0, 31).trim();
+        if (!cleanName || workbook.Sheets[cleanName]) return;
+
+        const sheetIndex = workbook.SheetNames.indexOf(oldName);
+        workbook.SheetNames[sheetIndex] = cleanName;
+        workbook.Sheets[cleanName] = workbook.Sheets[oldName];
+        delete workbook.Sheets[oldName];
+        const sheetProps = workbook.Workbook?.Sheets?.[sheetIndex];
+        if (sheetProps) sheetProps.name = cleanName;
+        sheetRenames.set(oldName, cleanName);
+        console.log(`Renamed sheet: "${oldName}" → "${cleanName}"`);
+      });
+    } catch (e) {
+      console.error('Sheet name translation failed', e);
+      onProgress('Sheet name translation failed, continuing...', 90);
+    }
+  }
+
+  // 4. Point formulas and defined names at the renamed sheets ('Old'!A1 would become #REF!)
+  if (sheetRenames.size > 0) {
+    workbook.SheetNames.forEach(sheetName => {
+      const worksheet = workbook.Sheets[sheetName];
+      Object.keys(worksheet).forEach(address => {
+        if (address.startsWith('!')) return;
+        const cell = worksheet[address] as XLSX.CellObject;
+        if (cell.f) cell.f = renameSheetReferences(cell.f, sheetRenames);
+      });
+    });
+    workbook.Workbook?.Names?.forEach(definedName => {
+      definedName.Ref = renameSheetReferences(definedName.Ref, sheetRenames);
+    });
+  }
+
+  // 5. Report features SheetJS cannot carry over
+  const warnings: string[] = [
+    'Cell formatting (fonts, colors, fills, borders) was not preserved.',
+    'Images, charts and drawing shapes were not carried over.'
+  ];
+  if (richTextCells > 0) {
+    warnings.push(`${richTextCells} rich-text cells were flattened to plain text.`);
+  }
+  if (workbook.vbaraw && outputFormat === 'xlsx') {
+    warnings.push('VBA macros were removed (.xlsx cannot contain macros; choose .xls output to keep them).');
+  }
+
+  onProgress(`Writing ${outputFormat === 'xls' ? '.xls (BIFF8)' : 'upgraded .xlsx'} file...`, 95);
+  const output = XLSX.write(workbook, {
+    bookType: outputFormat === 'xls' ? 'biff8' : 'xlsx',
+    bookVBA: outputFormat === 'xls',
+    type: 'array'
+  });
+
+  onProgress('Done', 100);
+  const mimeType = outputFormat === 'xls'
+    ? 'application/vnd.ms-excel'
+    : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+  return { blob: new Blob([output], { type: mimeType }), warnings };
+};
@@ -1,6 +1,10 @@
 import { translateText, translateBatchStrings, extractTextFromImage, extractTextFromBase64, detectLanguage } from './geminiService';
-import { SupportedLanguage, GlossaryItem, BlacklistItem } from '../types';
+import { SupportedLanguage, GlossaryItem, BlacklistItem, FormulaLiteralChange } from '../types';
 import { extractShapeTexts, replaceShapeTexts } from './excelShapeExtractor';
+import { translateWorkbookAnnotations } from './excelAnnotations';
+import { translateChartTexts } from './excelCharts';
+import { updateWorkbookReferences } from './excelReferences';
+import { encodeRunSegments, decodeRunSegments } from './runSegments';
 
 /**
  * Helper to convert ArrayBuffer to Base64 string
@@ -15,6 +19,60 @@ const arrayBufferToBase64 = (buffer: ArrayBuffer): string => {
   return window.btoa(binary);
 };
 
+interface MergedRange {
+  top: number;
+  left: number;
+  bottom: number;
+  right: number;
+}
+
+// The parts of an xlsx-populate sheet getMergedRanges relies on (_mergeCells is private)
+interface MergeCellsSheet {
+  name(): string;
+  range(address: string): {
+    startCell(): { rowNumber(): number, columnNumber(): number };
+    endCell(): { rowNumber(): number, columnNumber(): number };
+  };
+  _mergeCells?: Record<string, unknown>;
+}
+
+// The parts of an xlsx-populate cell and rich text value read when collecting texts
+interface PopulateCell {
+  rowNumber(): number;
+  columnNumber(): number;
+  formula(): string | undefined;
+  value(): unknown;
+  address(): string;
+}
+
+interface PopulateRichText {
+  length: number;
+  get(index: number): { value(): string | undefined };
+  text(): string;
+}
+
+/**
+ * Merged ranges of a sheet as row/column bounds (1-based).
+ * xlsx-populate has no public getter for the list, only sheet.merged(address), so this reads
+ * its private map of merge refs; if a library update removes it, merges are simply not handled.
+ */
+const getMergedRanges = (sheet: MergeCellsSheet): MergedRange[] => {
+  const mergeCells = sheet._mergeCells;
+  if (!mergeCells || typeof mergeCells !== 'object') {
+    console.warn(`⚠️ Merged ranges of "${sheet.name()}" are not readable, merged cells are translated as normal cells`);
+    return [];
+  }
+  return Object.keys(mergeCells).map(ref => {
+    const range = sheet.range(ref);
+    return {
+      top: range.startCell().rowNumber(),
+      left: range.startCell().columnNumber(),
+      bottom: range.endCell().rowNumber(),
+      right: range.endCell().columnNumber()
+    };
+  });
+};
+
 /**
  * Process Excel file with full shape/drawing support using ZIP manipulation
  * This replaces the ExcelJS processor for better shape handling
@@ -28,9 +86,11 @@ export const processExcelWithShapes = async (
   onProgress: (msg: string, percent: number) => void,
   skipAlreadyTranslated: boolean = true,
   sourceLang: string = 'auto',
-  blacklist: BlacklistItem[] = []
-): Promise<Blob> => {
+  blacklist: BlacklistItem[] = [],
+  translateFormulaStrings: boolean = false
+): Promise<{ blob: Blob, formulaChanges: FormulaLiteralChange[], warnings: string[] }> => {
   onProgress('Loading Excel file with shape support...', 5);
+  const warnings: string[] = [];
   
   // STEP 1: Extract shape texts from XLSX ZIP structure
   onProgress('Extracting shape texts from drawings...', 8);
@@ -51,12 +111,17 @@ export const processExcelWithShapes = async (
     throw new Error('No sheets selected for processing');
   }
 
+  // Workbook-order positions of the selected sheets (stable across sheet renaming)
+  const sheetPositions = sheetsToProcess.map(sheet => allSheets.indexOf(sheet));
+
   onProgress('Analyzing cells and shapes...', 10);
   
   interface TranslatableItem {
     sheetName: string;
     type: 'cell' | 'shape';
     cellAddress?: string;
+    runCount?: number; // rich text cells: number of <rN> segments in val
+    merged?: boolean; // anchor of a merged range
     shapeId?: string;
     val: string;
   }
@@ -71,41 +136,59 @@ export const processExcelWithShapes = async (
     
     onProgress(`Analyzing sheet ${sheetIndex + 1}/${totalSheets}: "${sheetName}"...`, 10 + Math.floor((sheetIndex / totalSheets) * 5));
 
-    // Process cells
+    // Process cells (rich text keeps every run's font via <rN> segments)
     const usedRange = sheet.usedRange();
     if (usedRange) {
-      const rows = usedRange.value();
+      const merged = getMergedRanges(sheet);
       
-      if (Array.isArray(rows)) {
-        rows.forEach((row, rowIdx) => {
-          if (Array.isArray(row)) {
-            row.forEach((cellValue, colIdx) => {
-              if (cellValue && typeof cellValue === 'string' && cellValue.trim().length > 0 && !cellValue.startsWith('=')) {
-                // Smart language detection
-                if (skipAlreadyTranslated) {
-                  const detectedLang = detectLanguage(cellValue);
-                  const targetLangCode = targetLang.toLowerCase().substring(0, 2);
-                  
-                  if (detectedLang === targetLangCode) {
-                    return; // Skip already translated
-                  }
-                }
-                
-                // Convert row/col index to cell address (e.g., A1, B2)
-                const cellAddress = sheet.cell(rowIdx + usedRange.startCell().rowNumber(), 
-                                               colIdx + usedRange.startCell().columnNumber()).address();
-                
-                allItems.push({
-                  sheetName,
-                  type: 'cell',
-                  cellAddress,
-                  val: cellValue
-                });
-              }
-            });
+      usedRange.forEach((cell: PopulateCell) => {
+        const rowNumber = cell.rowNumber();
+        const columnNumber = cell.columnNumber();
+        
+        // Only the top-left cell of a merged range is displayed
+        const mergedRange = merged.find(m => rowNumber >= m.top && rowNumber <= m.bottom && columnNumber >= m.left && columnNumber <= m.right);
+        if (mergedRange && (rowNumber !== mergedRange.top || columnNumber !== mergedRange.left)) return;
+        if (cell.formula()) return;
+        
+        const cellValue = cell.value();
+        let val = '';
+        let plainText = '';
+        let runCount: number | undefined;
+        
+        if (cellValue instanceof XlsxPopulate.RichText) {
+          const richText = cellValue as PopulateRichText;
+          const runTexts: string[] = [];
+          for (let i = 0; i < richText.length; i++) runTexts.push(richText.get(i).value() || '');
+          if (runTexts.length === 0) return;
+          val = encodeRunSegments(runTexts);
+          plainText = richText.text();
+          runCount = runTexts.length;
+        } else if (typeof cellValue === 'string') {
+          val = cellValue;
+          plainText = cellValue;
+        }
+        
+        if (!plainText || plainText.trim().length === 0 || plainText.startsWith('=')) return;
+        
+        // Smart language detection
+        if (skipAlreadyTranslated) {
+          const detectedLang = detectLanguage(plainText);
+          const targetLangCode = targetLang.toLowerCase().substring(0, 2);
+          
+          if (detectedLang === targetLangCode) {
+            return; // Skip already translated
           }
+        }
+        
+        allItems.push({
+          sheetName,
+          type: 'cell',
+          cellAddress: cell.address(),
+          runCount,
+          merged: !!mergedRange,
+          val
         });
-      }
+      });
     }
 
     // Add shape texts from ZIP extraction (replaces the old sheet.shapes() logic)
@@ -117,10 +200,10 @@ export const processExcelWithShapes = async (
   
   // 2. Add extracted shape texts to translation queue
   onProgress('Processing extracted shape texts...', 15);
-  shapeTexts.forEach((shapeText, idx) => {
+  shapeTexts.forEach((shapeText) => {
     // Smart language detection for shapes
     if (skipAlreadyTranslated) {
-      const detectedLang = detectLanguage(shapeText.originalText);
+      const detectedLang = detectLanguage(shapeText.originalText.replace(/<\/?r\d+>/g, ''));
       const targetLangCode = targetLang.toLowerCase().substring(0, 2);
       
       if (detectedLang === targetLangCode) {
@@ -131,7 +214,7 @@ export const processExcelWithShapes = async (
     allItems.push({
       sheetName: 'drawings', // Special marker for shapes
       type: 'shape',
-      shapeId: `${shapeText.drawingPath}_${shapeText.shapeIndex}`,
+      shapeId: shapeText.key,
       val: shapeText.originalText
     });
   });
@@ -140,6 +223,8 @@ export const processExcelWithShapes = async (
   
   // Collection for shape translations (applied later via ZIP manipulation)
   const shapeTranslations = new Map<string, string>();
+  // Plain cell text → translation, reused for matching string literals in formulas
+  const cellTranslations = new Map<string, string>();
   
   // 3. Translate all content in batches
   if (totalItems > 0) {
@@ -175,11 +260,27 @@ export const processExcelWithShapes = async (
             const sheet = workbook.sheet(item.sheetName);
             if (sheet) {
               const cell = sheet.cell(item.cellAddress);
-              cell.value(translatedText);
+              if (item.runCount) {
+                // Write run texts into a copy so fonts, colours and sizes stay on their runs
+                const richText = cell.value().copy();
+                const runTexts = decodeRunSegments(translatedText, item.runCount);
+                runTexts.forEach((text, runIdx) => richText.get(runIdx).value(text));
+                for (let runIdx = runTexts.length - 1; runIdx >= 0; runIdx--) {
+                  if (!runTexts[runIdx] && richText.length > 1) richText.remove(runIdx);
+                }
+                cell.value(richText);
+              } else {
+                cell.value(translatedText);
+                cellTranslations.set(item.val, translatedText);
+              }
+              // Merged areas clip instead of overflowing, so let longer translations wrap
+              if (item.merged && translatedText.length > item.val.length) {
+                cell.style('wrapText', true);
+              }
             }
-          } else if (item.type === 'shape') {
-            // Collect shape translations for ZIP manipulation
-            shapeTranslations.set(item.val, translatedText);
+          } else if (item.type === 'shape' && item.shapeId) {
+            // Collect shape translations for ZIP manipulation (keyed by drawing + paragraph position)
+            shapeTranslations.set(item.shapeId, translatedText);
           }
         } catch (applyErr) {
           console.error(`Failed to apply translation for ${item.type}:`, applyErr);
@@ -267,7 +368,8 @@ export const processExcelWithShapes = async (
     // Continue with shape translations even if images fail
   }
 
-  // 4. Translate sheet names
+  // 4. Translate sheet names (old → new, so formulas and chart references can follow)
+  const sheetRenames = new Map<string, string>();
   if (selectedSheets.length > 0) {
     onProgress('Translating sheet names...', 90);
     try {
@@ -306,6 +408,7 @@ export const processExcelWithShapes = async (
             if (cleanName && !workbook.sheet(cleanName)) {
               try {
                 sheet.name(cleanName);
+                sheetRenames.set(oldName, cleanName);
                 console.log(`✓ Renamed sheet: "${oldName}" → "${cleanName}"`);
               } catch (err) {
                 console.error(`Failed to rename sheet "${oldName}":`, err);
@@ -335,11 +438,50 @@ export const processExcelWithShapes = async (
     }
   }
 
-  // 6. Generate output
+  // 6. Notes, dropdown lists and headers/footers are not cell values: translate them in the ZIP
+  onProgress('Translating comments, dropdowns and headers...', 94);
+  try {
+    const annotated = await translateWorkbookAnnotations(finalBuffer, sheetPositions, targetLang, context, glossary, onProgress, skipAlreadyTranslated, sourceLang, blacklist);
+    finalBuffer = annotated.buffer;
+    warnings.push(...annotated.warnings);
+  } catch (err) {
+    console.error('❌ Failed to translate comments, dropdowns and headers:', err);
+  }
+
+  // 7. Point formulas, defined names, hyperlinks and charts at the renamed sheets
+  let formulaChanges: FormulaLiteralChange[] = [];
+  if (sheetRenames.size > 0 || translateFormulaStrings) {
+    onProgress('Updating sheet references in formulas...', 95);
+    try {
+      const updated = await updateWorkbookReferences(finalBuffer, sheetRenames, sheetPositions, translateFormulaStrings, cellTranslations, targetLang, context, glossary, onProgress, skipAlreadyTranslated, sourceLang, blacklist);
+      finalBuffer = updated.buffer;
+      formulaChanges = updated.changes;
+    } catch (err) {
+      console.error('❌ Failed to update sheet references:', err);
+    }
+  }
+
+  // 8. Chart titles, axis titles and series names (cell-linked labels follow the translated cells)
+  try {
+    const resolveReference = (sheetName: string, range: string): string[] | null => {
+      const sheet = workbook.sheet(sheetName);
+      if (!sheet) return null;
+      const address = range.replace(/\$/g, '');
+      const values: unknown[][] = sheet.range(address.includes(':') ? address : `${address}:${address}`).value();
+      return values.flat().map(value =>
+        typeof value === 'string' ? value : value instanceof XlsxPopulate.RichText ? (value as PopulateRichText).text() : '');
+    };
+    finalBuffer = await translateChartTexts(finalBuffer, resolveReference, targetLang, context, glossary, onProgress, skipAlreadyTranslated, sourceLang, blacklist);
+  } catch (err) {
+    console.error('❌ Failed to translate chart texts:', err);
+  }
+
+  // 9. Generate output
   onProgress('Finalizing file...', 97);
   
   onProgress('Done', 100);
-  return new Blob([finalBuffer], { 
+  const blob = new Blob([finalBuffer], { 
     type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' 
   });
+  return { blob, formulaChanges, warnings };
 };
@@ -1,5 +1,12 @@
 import { TestCase, TestResult } from './types';
 import ExcelJS from 'exceljs';
+import { parseCsv, serializeCsv, encodeCsvText, detectCsvDelimiter, detectCsvEncoding } from '../services/csvProcessor';
+import { parseSubtitles, serializeSubtitles, wrapSubtitleLine } from '../services/subtitleProcessor';
+import { parseMarkdownBlocks, serializeMarkdownBlocks } from '../services/markdownProcessor';
+import { parseListFormula, buildListFormula } from '../services/excelAnnotations';
+import { parseSheetReference } from '../services/excelCharts';
+import { renameSheetReferences } from '../services/excelReferences';
+import { cloneWorksheet } from '../services/excelBilingual';
 
 /**
  * Test 1: Excel Creation and Parsing
@@ -271,9 +278,278 @@ export const multipleWorksheetsTest: TestCase = {
   }
 };
 
+/**
+ * Test 5: CSV Dialect Round Trip
+ * Validates that quoting, delimiter and Shift_JIS encoding survive parse + serialize
+ */
+export const csvRoundTripTest: TestCase = {
+  id: 'processing-005',
+  name: 'CSV Dialect Round Trip',
+  description: 'Test CSV parsing, serialization and Shift_JIS re-encoding',
+  category: 'Processing',
+  run: async (): Promise<TestResult> => {
+    const startTime = performance.now();
+    
+    try {
+      const source = 'id,名前,"note, with comma"\r\n1,"田中 ""太郎""",abc\r\n2,ｶﾀｶﾅ,\r\n';
+      
+      const delimiter = detectCsvDelimiter(source);
+      const rows = parseCsv(source, delimiter);
+      const output = serializeCsv(rows, { delimiter, lineEnding: '\r\n', encoding: 'shift_jis', hasTrailingNewline: true });
+      
+      if (output !== source) {
+        return {
+          success: false,
+          message: 'Serialized CSV differs from the source text',
+          duration: performance.now() - startTime,
+          details: { expected: source, actual: output }
+        };
+      }
+      
+      // Encode to Shift_JIS and decode back
+      const { bytes, unmappable } = encodeCsvText(output, 'shift_jis');
+      const detectedEncoding = detectCsvEncoding(bytes);
+      const decoded = new TextDecoder('shift_jis').decode(bytes);
+      const success = unmappable === 0 && detectedEncoding === 'shift_jis' && decoded === source;
+      
+      return {
+        success,
+        message: success 
+          ? 'CSV dialect and Shift_JIS encoding preserved' 
+          : 'Shift_JIS round trip failed',
+        duration: performance.now() - startTime,
+        details: { delimiter, rowCount: rows.length, byteLength: bytes.length, unmappable, detectedEncoding }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        duration: performance.now() - startTime
+      };
+    }
+  }
+};
+
+/**
+ * Test 6: Subtitle Cue Parsing
+ * Validates that SRT timestamps/indices survive a parse + serialize round trip and line wrapping
+ */
+export const subtitleRoundTripTest: TestCase = {
+  id: 'processing-006',
+  name: 'Subtitle Cue Parsing',
+  description: 'Test SRT round trip and max characters per line wrapping',
+  category: 'Processing',
+  run: async (): Promise<TestResult> => {
+    const startTime = performance.now();
+    
+    try {
+      const source = '1\r\n00:00:01,000 --> 00:00:02,500\r\n<i>こんにちは</i>\r\n\r\n2\r\n00:00:03,000 --> 00:00:04,000\r\nSecond cue\r\n';
+      const parsed = parseSubtitles(source, 'srt');
+      const output = serializeSubtitles(parsed);
+      const cueCount = parsed.entries.filter(e => e.kind === 'cue').length;
+      
+      if (output !== source || cueCount !== 2) {
+        return {
+          success: false,
+          message: 'SRT round trip changed the file',
+          duration: performance.now() - startTime,
+          details: { expected: source, actual: output, cueCount }
+        };
+      }
+      
+      const wrapped = wrapSubtitleLine('<i>This subtitle line is too long</i> for one row', 20);
+      const success = wrapped.length === 3 && wrapped.every(line => line.replace(/<[^>]+>/g, '').length <= 20);
+      
+      return {
+        success,
+        message: success 
+          ? 'Subtitle cues and line wrapping work correctly' 
+          : 'Line wrapping exceeded the character limit',
+        duration: performance.now() - startTime,
+        details: { cueCount, wrapped }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        duration: performance.now() - startTime
+      };
+    }
+  }
+};
+
+/**
+ * Test 7: Markdown Block Parsing
+ * Validates that code fences and front matter are kept verbatim
+ */
+export const markdownBlocksTest: TestCase = {
+  id: 'processing-007',
+  name: 'Markdown Block Parsing',
+  description: 'Test Markdown round trip and verbatim code/front matter blocks',
+  category: 'Processing',
+  run: async (): Promise<TestResult> => {
+    const startTime = performance.now();
+    
+    try {
+      const source = '---\ntitle: Guide\n---\n\n# Setup\n\nRun `npm install` and open [docs](https://example.com).\n\n```bash\nnpm run dev\n\necho done\n```\n\n| Key | Value |\n|-----|-------|\n| a | b |\n';
+      const blocks = parseMarkdownBlocks(source);
+      const output = serializeMarkdownBlocks(blocks);
+      const verbatimText = blocks.flatMap(b => b.kind === 'verbatim' ? b.lines : []).join('\n');
+      const tableRows = blocks.filter(b => b.kind === 'table-row').length;
+      const success = output === source && verbatimText.includes('npm run dev\n\necho done') && verbatimText.includes('title: Guide') && tableRows === 2;
+      
+      return {
+        success,
+        message: success 
+          ? 'Markdown blocks parsed and reassembled byte-identical' 
+          : 'Markdown round trip or block detection failed',
+        duration: performance.now() - startTime,
+        details: { blockCount: blocks.length, tableRows, output }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        duration: performance.now() - startTime
+      };
+    }
+  }
+};
+
+/**
+ * Test 8: Dropdown List Formula
+ * Validates that literal data-validation lists split and rebuild losslessly
+ */
+export const listFormulaTest: TestCase = {
+  id: 'processing-008',
+  name: 'Dropdown List Formula',
+  description: 'Test data-validation list parsing, quote escaping and reference detection',
+  category: 'Processing',
+  run: async (): Promise<TestResult> => {
+    const startTime = performance.now();
+    
+    try {
+      const formula = '"Open,In ""review"",Closed"';
+      const entries = parseListFormula(formula);
+      const rebuilt = entries ? buildListFormula(entries) : '';
+      const reference = parseListFormula('$A$1:$A$3');
+      const success = !!entries && entries.length === 3 && entries[1] === 'In "review"' && rebuilt === formula && reference === null;
+      
+      return {
+        success,
+        message: success 
+          ? 'List formula parsed and rebuilt identically; references left alone' 
+          : 'List formula round trip failed',
+        duration: performance.now() - startTime,
+        details: { entries, rebuilt, reference }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        duration: performance.now() - startTime
+      };
+    }
+  }
+};
+
+/**
+ * Test 9: Sheet References
+ * Validates that formulas and chart references keep pointing at renamed sheets
+ */
+export const chartReferenceTest: TestCase = {
+  id: 'processing-009',
+  name: 'Sheet References',
+  description: 'Test chart reference parsing and formula rewriting for renamed sheets',
+  category: 'Processing',
+  run: async (): Promise<TestResult> => {
+    const startTime = performance.now();
+    
+    try {
+      const quoted = parseSheetReference("'Q1 ''Sales'''!$A$2:$A$5");
+      const plain = parseSheetReference('Data!$B$1');
+      const union = parseSheetReference('(Data!$A$1,Data!$A$3)');
+      const renames = new Map([['Sales', 'Doanh thu'], ['Data', 'Data2']]);
+      const renamed = renameSheetReferences('SUM(Sales!$A$2:$A$5)+Data!B1&"Sales!A1"+[1]Sales!A1', renames);
+      const success = quoted?.sheetName === "Q1 'Sales'" && quoted.range === '$A$2:$A$5'
+        && plain?.sheetName === 'Data' && union === null
+        && renamed === `SUM('Doanh thu'!$A$2:$A$5)+Data2!B1&"Sales!A1"+[1]Sales!A1`;
+      
+      return {
+        success,
+        message: success 
+          ? 'References parsed and rewritten; string literals and external links untouched' 
+          : 'Reference parsing or rewriting failed',
+        duration: performance.now() - startTime,
+        details: { quoted, plain, union, renamed }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        duration: performance.now() - startTime
+      };
+    }
+  }
+};
+
+/**
+ * Test 10: Bilingual Sheet Clone
+ * Validates that a cloned sheet keeps one-cell anchored images and page breaks
+ */
+export const sheetCloneTest: TestCase = {
+  id: 'processing-010',
+  name: 'Bilingual Sheet Clone',
+  description: 'Test cloning a sheet with an image and a page break, then writing the workbook',
+  category: 'Processing',
+  run: async (): Promise<TestResult> => {
+    const startTime = performance.now();
+    
+    try {
+      // 1x1 transparent PNG
+      const png = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+      const workbook = new ExcelJS.Workbook();
+      const sheet = workbook.addWorksheet('Data');
+      sheet.getCell('A1').value = 'Logo';
+      const imageId = workbook.addImage({ base64: png, extension: 'png' });
+      sheet.addImage(imageId, { tl: { col: 1, row: 1 }, ext: { width: 50, height: 50 } });
+      sheet.getRow(5).addPageBreak();
+      
+      const clone = cloneWorksheet(workbook, sheet, 'Data (VI)');
+      const pageBreaks = clone.model.rowBreaks.length;
+      
+      const reloaded = new ExcelJS.Workbook();
+      await reloaded.xlsx.load(await workbook.xlsx.writeBuffer());
+      const images = reloaded.getWorksheet('Data (VI)')?.getImages() || [];
+      const success = images.length === 1 && images[0].range.tl.nativeCol === 1 && pageBreaks === 1;
+      
+      return {
+        success,
+        message: success 
+          ? 'Clone written with its image and page break' 
+          : 'Image or page break missing from the clone',
+        duration: performance.now() - startTime,
+        details: { images: images.length, pageBreaks }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        duration: performance.now() - startTime
+      };
+    }
+  }
+};
+
 export const processingTests: TestCase[] = [
   excelCreationTest,
   richTextTest,
   formulaTest,
-  multipleWorksheetsTest
+  multipleWorksheetsTest,
+  csvRoundTripTest,
+  subtitleRoundTripTest,
+  markdownBlocksTest,
+  listFormulaTest,
+  chartReferenceTest,
+  sheetCloneTest
 ];
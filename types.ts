@@ -10,8 +10,14 @@ export enum FileType {
   MARKDOWN = 'MARKDOWN',
   EXCEL = 'EXCEL',
   PPTX = 'PPTX',
+  DOCX = 'DOCX',
   IMAGE = 'IMAGE',
   PDF = 'PDF',
+  CSV = 'CSV',
+  SUBTITLE = 'SUBTITLE',
+  I18N = 'I18N',
+  HTML = 'HTML',
+  ODF = 'ODF',
   UNKNOWN = 'UNKNOWN',
 }
 
@@ -39,6 +45,35 @@ export interface HistoryItem {
   blob?: Blob; // Only valid for current session
 }
 
+export interface PptxSlideInfo {
+  number: number; // 1-based position in the deck
+  path: string;   // e.g. ppt/slides/slide7.xml
+  title: string;
+  thumbnail: string; // PNG data URL (layout sketch: pictures and text boxes)
+}
+
+export interface PptxImageInfo {
+  path: string; // e.g. ppt/media/image3.png
+  thumbnail: string; // PNG data URL
+  slides: number[]; // Slides showing this image
+  hasText?: boolean; // OCR result (undefined = not checked yet)
+}
+
+export interface PptxImageCandidate {
+  path: string;
+  mimeType: string;
+  original: string;   // base64 without data: prefix
+  translated: string; // base64 without data: prefix
+  accepted: boolean;
+}
+
+export interface FormulaLiteralChange {
+  sheet: string;      // sheet name in the translated workbook
+  cell: string;       // e.g. "B2"
+  original: string;   // string literal before translation
+  translated: string;
+}
+
 export interface FileQueueItem {
   id: string;
   file: File;
@@ -48,14 +83,41 @@ export interface FileQueueItem {
   progress: number; // 0 to 100
   availableSheets: string[]; // For Excel
   selectedSheets: string[]; // For Excel
+  availableColumns?: string[]; // For CSV/TSV (header labels)
+  selectedColumns?: number[]; // For CSV/TSV (0-based column indexes)
+  legacyOutputFormat?: 'xls' | 'xlsx'; // For legacy .xls: keep BIFF or upgrade to .xlsx
+  translateFormulaStrings?: boolean; // For Excel: also translate string literals inside formulas
+  excelBilingualMode?: 'replace' | 'column' | 'sheet' | 'note' | 'inline'; // For Excel: keep the source text next to the translation
+  excelHasShapes?: boolean; // For Excel: shapes or charts found (bilingual output would drop them)
+  formulaChanges?: FormulaLiteralChange[]; // For Excel: formula strings that were translated
+  subtitleMaxChars?: number; // For SRT/VTT/ASS: max characters per line (0 = no wrapping)
+  imageOutputMode?: 'text' | 'image'; // For images: translated Markdown text or translated image
+  includeOcrText?: boolean; // For image output: also keep the translated OCR text
+  pptxOverflowStrategy?: 'autofit' | 'shrink' | 'report'; // For PPTX: how to handle text longer than its box
+  pptxMinFontSize?: number; // For PPTX shrink/autofit: smallest font size (pt)
+  pptxBilingualMode?: 'replace' | 'duplicate' | 'inline' | 'notes'; // For PPTX: keep the source text next to the translation
+  availableSlides?: PptxSlideInfo[]; // For PPTX
+  selectedSlides?: number[]; // For PPTX (1-based slide numbers)
+  pptxIncludeNotes?: boolean; // For PPTX: translate speaker notes of the selected slides
+  pptxIncludeMasters?: boolean; // For PPTX: translate slide masters
+  pptxIncludeLayouts?: boolean; // For PPTX: translate slide layouts
+  pptxTranslateAltText?: boolean; // For PPTX: translate alt text (descr/title) of shapes and pictures
+  pptxTranslateComments?: boolean; // For PPTX: translate reviewer comments
+  pptxTranslateTooltips?: boolean; // For PPTX: translate hyperlink tooltips
+  availableImages?: PptxImageInfo[]; // For PPTX: embedded PNG/JPEG images
+  selectedImages?: string[]; // For PPTX: media paths to translate
+  imageCandidates?: PptxImageCandidate[]; // For PPTX: translated images waiting for review
   resultBlob?: Blob;
   downloadUrl?: string;
   errorMessage?: string;
   errorDetails?: string;
+  warnings?: string[]; // Non-fatal issues (e.g. features lost during conversion)
   isExpanded?: boolean; // UI state for excel configuration
   // For Preview / Compare
   originalText?: string; 
   translatedText?: string;
+  originalPages?: string[]; // For PDF page-aligned preview
+  translatedPages?: string[]; // For PDF page-aligned preview
 }
 
 export interface LogEntry {